@@ -3,6 +3,8 @@ import Toolbar from "@/components/toolbar";
 import DownloadButton from "@/components/download-button";
 import ActionsPanel from "@/components/actions-panel";
 import DocumentMenu from "@/components/document-menu";
+import SyncConflictDialog from "@/components/sync-conflict-dialog";
+import HistoryPanel from "@/components/history-panel";
 
 export default function Home() {
   return (
@@ -11,7 +13,9 @@ export default function Home() {
       <DocumentMenu />
       <DownloadButton />
       <ActionsPanel />
+      <HistoryPanel />
       <Canvas />
+      <SyncConflictDialog />
     </main>
   );
 }
\ No newline at end of file
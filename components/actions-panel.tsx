@@ -2,22 +2,27 @@
 
 import React, { useState } from "react";
 import * as fabric from "fabric";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { ChevronDown, Layers, FolderOpen, Plus, File as FileIcon, Check, Loader2, Trash2, RefreshCcw } from "lucide-react";
+import { ChevronDown, Layers, FolderOpen, Plus, File as FileIcon, Check, Loader2, Trash2, RefreshCcw, History, Undo2, Redo2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useMainStore } from "@/store/mainStore";
 import { DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
-import { FillControl, CornerRadiusControl, LayerControls, DeleteControl } from './selection-controls';
+import { FillControl, CornerRadiusControl, PolygonControl, ArrowHeadControl, ConnectorControl, FrameControl, BooleanControl, LayerControls, DeleteControl } from './selection-controls';
 import { commandManager } from '@/lib/history/commandManager';
+import { VersionHistoryDialog } from './version-history-dialog';
+import { useHistory } from '@/hooks/useHistory';
 
 export const ActionsPanel: React.FC = () => {
     const selection = useMainStore(s => s.selection);
     const fns = {
+        applyPropertiesToSelection: useMainStore(s => s.applyPropertiesToSelection),
         applyFillToSelection: useMainStore(s => s.applyFillToSelection),
         applyRectCornerRadiusToSelection: useMainStore(s => s.applyRectCornerRadiusToSelection),
         deleteSelection: useMainStore(s => s.deleteSelection),
+        booleanSelection: useMainStore(s => s.booleanSelection),
         bringForward: useMainStore(s => s.bringForward),
         sendBackward: useMainStore(s => s.sendBackward),
         bringToFront: useMainStore(s => s.bringToFront),
@@ -27,8 +32,13 @@ export const ActionsPanel: React.FC = () => {
     return (
         <div aria-label="Selection actions" className="z-50 pointer-events-auto fixed top-1/2 -translate-y-1/2 left-4 hidden md:flex flex-col">
             <div className="flex flex-col gap-4 p-3 rounded-lg border bg-popover/90 backdrop-blur-md shadow-lg w-44">
+                <FrameControl selection={selection} fns={fns} size="sm" />
                 <FillControl selection={selection} fns={fns} size="sm" />
                 <CornerRadiusControl selection={selection} fns={fns} size="sm" />
+                <PolygonControl selection={selection} fns={fns} size="sm" />
+                <ArrowHeadControl selection={selection} fns={fns} size="sm" />
+                <ConnectorControl selection={selection} fns={fns} size="sm" />
+                <BooleanControl selection={selection} fns={fns} size="sm" />
                 <LayerControls selection={selection} fns={fns} size="sm" />
                 <DeleteControl selection={selection} fns={fns} size="sm" />
             </div>
@@ -51,19 +61,25 @@ export const ActionsPanelMobile: React.FC = () => {
     const renameDocument = useMainStore(s => s.renameDocument);
     const deleteDocument = useMainStore(s => s.deleteDocument);
     const saveDocument = useMainStore(s => s.saveDocument);
+    const restoreDocument = useMainStore(s => s.restoreDocument);
     const [docDialogOpen, setDocDialogOpen] = useState(false);
-    const [deleteDialogId, setDeleteDialogId] = useState<string | null>(null);
     const [resetOpen, setResetOpen] = useState(false);
+    const [historyOpen, setHistoryOpen] = useState(false);
     const [filter, setFilter] = useState('');
     const [renamingId, setRenamingId] = useState<string | null>(null);
     const [renameValue, setRenameValue] = useState('');
     const [loadingDoc, setLoadingDoc] = useState<string | null>(null);
+    const history = useHistory();
     React.useEffect(() => { loadDocuments(); }, [loadDocuments]);
     const filteredDocs = React.useMemo(() => docs.filter(d => d.name.toLowerCase().includes(filter.toLowerCase())), [docs, filter]);
     const openDoc = async (id: string) => { if (id === activeId) { setDocDialogOpen(false); return; } setLoadingDoc(id); try { await loadDocument(id, window.fabricCanvas); } finally { setLoadingDoc(null); setDocDialogOpen(false); } };
     const commitRename = async () => { if (!renamingId) return; const v = renameValue.trim() || 'Untitled'; await renameDocument(renamingId, v); setRenamingId(null); setRenameValue(''); };
-    const requestDelete = (id: string) => setDeleteDialogId(id);
-    const confirmDelete = async () => { if (!deleteDialogId) return; await deleteDocument(deleteDialogId, window.fabricCanvas); setDeleteDialogId(null); };
+    // Soft delete: the document goes to the Trash, restorable right away from the toast
+    const requestDelete = async (id: string) => {
+        const doc = docs.find(d => d.id === id);
+        await deleteDocument(id, window.fabricCanvas);
+        toast(`Moved “${doc?.name ?? 'Untitled'}” to Trash`, { action: { label: 'Undo', onClick: () => { restoreDocument(id); } } });
+    };
     const saveNow = () => saveDocument(window.fabricCanvas, { force: true });
     const triggerReset = () => {
         const canvas = window.fabricCanvas as fabric.Canvas | undefined;
@@ -90,9 +106,11 @@ export const ActionsPanelMobile: React.FC = () => {
         setResetOpen(false);
     };
     const fns = {
+        applyPropertiesToSelection: useMainStore(s => s.applyPropertiesToSelection),
         applyFillToSelection: useMainStore(s => s.applyFillToSelection),
         applyRectCornerRadiusToSelection: useMainStore(s => s.applyRectCornerRadiusToSelection),
         deleteSelection: useMainStore(s => s.deleteSelection),
+        booleanSelection: useMainStore(s => s.booleanSelection),
         bringForward: useMainStore(s => s.bringForward),
         sendBackward: useMainStore(s => s.sendBackward),
         bringToFront: useMainStore(s => s.bringToFront),
@@ -114,10 +132,15 @@ export const ActionsPanelMobile: React.FC = () => {
                                 <DropdownMenuItem onClick={() => createDocument('Untitled')} className="gap-2"><Plus className="h-4 w-4" /> New</DropdownMenuItem>
                                 <DropdownMenuItem onClick={triggerReset} className="gap-2"><RefreshCcw className="h-4 w-4" /> Reset Canvas</DropdownMenuItem>
                                 <DropdownMenuItem onClick={() => setDocDialogOpen(true)} className="gap-2"><FolderOpen className="h-4 w-4" /> Open…</DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => setHistoryOpen(true)} className="gap-2"><History className="h-4 w-4" /> History…</DropdownMenuItem>
                                 <DropdownMenuSeparator />
                                 <DropdownMenuItem onClick={saveNow} className="gap-2"><FileIcon className="h-4 w-4" /> Save Now</DropdownMenuItem>
                             </DropdownMenuContent>
                         </DropdownMenu>
+                        <div className="flex items-center gap-1 ml-auto">
+                            <Button variant="ghost" size="icon" className="h-7 w-7" disabled={!history.canUndo} onClick={history.undo} aria-label="Undo"><Undo2 className="h-4 w-4" /></Button>
+                            <Button variant="ghost" size="icon" className="h-7 w-7" disabled={!history.canRedo} onClick={history.redo} aria-label="Redo"><Redo2 className="h-4 w-4" /></Button>
+                        </div>
                         {hasSelection && (
                             <Button variant="ghost" size="sm" onClick={() => setExpanded(e => !e)} aria-expanded={expanded} aria-controls="qc-mobile-selection" aria-label="Toggle selection options" className="h-7 px-2 inline-flex items-center gap-1">
                                 <Layers className="h-4 w-4" />
@@ -129,8 +152,13 @@ export const ActionsPanelMobile: React.FC = () => {
                         <div id="qc-mobile-selection" className={cn("grid grid-cols-1 gap-3 pt-1 transition-[grid-template-rows,opacity] duration-300", expanded ? 'opacity-100' : 'opacity-0 pointer-events-none')}>
                             {expanded && (
                                 <>
+                                    <FrameControl selection={selection} fns={fns} size="sm" />
                                     <FillControl selection={selection} fns={fns} size="sm" />
                                     <CornerRadiusControl selection={selection} fns={fns} size="sm" />
+                                    <PolygonControl selection={selection} fns={fns} size="sm" />
+                                    <ArrowHeadControl selection={selection} fns={fns} size="sm" />
+                                    <ConnectorControl selection={selection} fns={fns} size="sm" />
+                                    <BooleanControl selection={selection} fns={fns} size="sm" />
                                     <LayerControls selection={selection} fns={fns} size="sm" />
                                     <DeleteControl selection={selection} fns={fns} size="sm" onAfterDelete={() => setExpanded(false)} />
                                 </>
@@ -174,7 +202,7 @@ export const ActionsPanelMobile: React.FC = () => {
                                     {isActive && !isRenaming && <Check className='h-4 w-4 text-green-500' />}
                                     <div className='flex items-center gap-1'>
                                         <Button variant='ghost' size='icon' className='h-7 w-7' onClick={() => { setRenamingId(d.id); setRenameValue(d.name); }} aria-label='Rename'><FileIcon className='h-3.5 w-3.5' /></Button>
-                                        <Button variant='ghost' size='icon' className='h-7 w-7 text-destructive' onClick={() => requestDelete(d.id)} aria-label='Delete'><Trash2 className='h-3.5 w-3.5' /></Button>
+                                        <Button variant='ghost' size='icon' className='h-7 w-7 text-destructive' onClick={() => requestDelete(d.id)} aria-label='Move to Trash'><Trash2 className='h-3.5 w-3.5' /></Button>
                                         <Button variant='secondary' size='sm' className='h-7 text-xs' disabled={loadingDoc === d.id} onClick={() => openDoc(d.id)}>
                                             {loadingDoc === d.id ? <Loader2 className='h-3.5 w-3.5 animate-spin' /> : 'Open'}
                                         </Button>
@@ -189,19 +217,7 @@ export const ActionsPanelMobile: React.FC = () => {
                     </DialogFooter>
                 </DialogContent>
             </Dialog>
-            {/* Delete Dialog */}
-            <Dialog open={!!deleteDialogId} onOpenChange={(o) => { if (!o) setDeleteDialogId(null); }}>
-                <DialogContent className="max-w-sm">
-                    <DialogHeader>
-                        <DialogTitle>Delete Document</DialogTitle>
-                        <DialogDescription>This action cannot be undone.</DialogDescription>
-                    </DialogHeader>
-                    <DialogFooter className="gap-2 flex flex-col sm:flex-row justify-end">
-                        <Button variant="outline" onClick={() => setDeleteDialogId(null)}>Cancel</Button>
-                        <Button variant="destructive" onClick={confirmDelete}>Delete</Button>
-                    </DialogFooter>
-                </DialogContent>
-            </Dialog>
+            <VersionHistoryDialog open={historyOpen} onOpenChange={setHistoryOpen} />
             {/* Reset Dialog */}
             <Dialog open={resetOpen} onOpenChange={(o) => { if (!o) setResetOpen(false); }}>
                 <DialogContent className="max-w-sm">
@@ -1,15 +1,20 @@
 "use client";
 
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import * as fabric from 'fabric';
-import { Plus, FolderOpen, File as FileIcon, Check, Loader2, Trash2, RefreshCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Plus, FolderOpen, File as FileIcon, Check, Loader2, Trash2, RefreshCcw, History, FileDown, FileUp, Archive, ArchiveRestore, Undo2 } from 'lucide-react';
 import { useMainStore } from '@/store/mainStore';
 import { Button } from '@/components/ui/button';
-import { DropdownMenu, DropdownMenuContent, DropdownMenuTrigger, DropdownMenuItem } from '@/components/ui/dropdown-menu';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuTrigger, DropdownMenuItem, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
 import { commandManager } from '@/lib/history/commandManager';
+import { VersionHistoryDialog } from '@/components/version-history-dialog';
+import { QCANVAS_EXTENSION, QCANVAS_MIME } from '@/lib/documentFile';
+import { BACKUP_MIME, RestoreMode } from '@/lib/backup';
+import { TRASH_RETENTION_OPTIONS, trashExpiresIn } from '@/lib/trash';
 
 const getCanvas = () => (typeof window !== 'undefined' ? (window as any).fabricCanvas as fabric.Canvas | undefined : undefined);
 
@@ -25,6 +30,17 @@ export const DocumentMenu = () => {
     const loadDocument = useMainStore(s => s.loadDocument);
     const renameDocument = useMainStore(s => s.renameDocument);
     const deleteDocument = useMainStore(s => s.deleteDocument);
+    const exportDocument = useMainStore(s => s.exportDocument);
+    const importDocument = useMainStore(s => s.importDocument);
+    const backupWorkspace = useMainStore(s => s.backupWorkspace);
+    const restoreWorkspace = useMainStore(s => s.restoreWorkspace);
+    const trash = useMainStore(s => s.trash);
+    const retentionDays = useMainStore(s => s.trashRetentionDays);
+    const loadTrash = useMainStore(s => s.loadTrash);
+    const restoreDocument = useMainStore(s => s.restoreDocument);
+    const purgeDocument = useMainStore(s => s.purgeDocument);
+    const emptyTrash = useMainStore(s => s.emptyTrash);
+    const setRetentionDays = useMainStore(s => s.setTrashRetentionDays);
 
     // UI state
     const [browserOpen, setBrowserOpen] = useState(false);
@@ -33,10 +49,18 @@ export const DocumentMenu = () => {
     const [renameValue, setRenameValue] = useState('');
     const [loadingDoc, setLoadingDoc] = useState<string | null>(null);
     const [resetOpen, setResetOpen] = useState(false);
-    const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+    const [browserView, setBrowserView] = useState<'documents' | 'trash'>('documents');
+    // Permanent deletion (single trashed document or the whole Trash) still asks for confirmation
+    const [pendingPurge, setPendingPurge] = useState<{ id: string } | 'all' | null>(null);
     const [resetMode, setResetMode] = useState<'idle' | 'pending'>('idle');
+    const [historyOpen, setHistoryOpen] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const restoreInputRef = useRef<HTMLInputElement>(null);
+    const [restoreFile, setRestoreFile] = useState<File | null>(null);
+    const [restoring, setRestoring] = useState(false);
 
     useEffect(() => { loadDocuments(); }, [loadDocuments]);
+    useEffect(() => { if (browserOpen) loadTrash(); else setBrowserView('documents'); }, [browserOpen, loadTrash]);
 
     const filtered = useMemo(() => docs.filter(d => d.name.toLowerCase().includes(filter.toLowerCase())), [docs, filter]);
 
@@ -83,9 +107,38 @@ export const DocumentMenu = () => {
         setResetOpen(false); setResetMode('idle');
     };
 
-    // Delete Handling
-    const requestDelete = (id: string) => setPendingDeleteId(id);
-    const confirmDelete = async () => { if (!pendingDeleteId) return; await deleteDocument(pendingDeleteId, getCanvas()); setPendingDeleteId(null); };
+    // File export / import
+    const handleExport = () => { exportDocument(getCanvas()); };
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // allow re-importing the same file
+        if (file) await importDocument(file, getCanvas());
+    };
+
+    // Workspace backup / restore (restore asks merge vs replace before touching anything)
+    const handleRestoreFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) setRestoreFile(file);
+    };
+    const confirmRestore = async (mode: RestoreMode) => {
+        if (!restoreFile) return;
+        setRestoring(true);
+        try { await restoreWorkspace(restoreFile, mode, getCanvas()); } finally { setRestoring(false); setRestoreFile(null); }
+    };
+
+    // Delete Handling: documents go to the Trash (undo via toast), purging from the Trash is permanent
+    const handleDelete = async (id: string) => {
+        const doc = docs.find(d => d.id === id);
+        await deleteDocument(id, getCanvas());
+        toast(`Moved “${doc?.name ?? 'Untitled'}” to Trash`, { action: { label: 'Undo', onClick: () => { restoreDocument(id); } } });
+    };
+    const confirmPurge = async () => {
+        if (!pendingPurge) return;
+        if (pendingPurge === 'all') await emptyTrash(); else await purgeDocument(pendingPurge.id);
+        setPendingPurge(null);
+    };
+    const daysLeft = (deletedAt: number) => Math.ceil(trashExpiresIn(deletedAt, retentionDays) / (24 * 60 * 60 * 1000));
 
     const ActiveLabel = () => (
         <span className="truncate max-w-[140px] inline-flex items-center gap-1">{name}{dirty && <span className="text-orange-500">*</span>}</span>
@@ -102,55 +155,103 @@ export const DocumentMenu = () => {
                         <DropdownMenuItem onClick={handleCreate} className="gap-2"><Plus className="h-4 w-4" /> New</DropdownMenuItem>
                         <DropdownMenuItem onClick={triggerReset} className="gap-2"><RefreshCcw className="h-4 w-4" /> Reset Canvas</DropdownMenuItem>
                         <DropdownMenuItem onClick={() => setBrowserOpen(true)} className="gap-2"><FolderOpen className="h-4 w-4" /> Open…</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => setHistoryOpen(true)} className="gap-2"><History className="h-4 w-4" /> History…</DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={handleExport} className="gap-2"><FileDown className="h-4 w-4" /> Export {QCANVAS_EXTENSION}</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => importInputRef.current?.click()} className="gap-2"><FileUp className="h-4 w-4" /> Import…</DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={() => backupWorkspace(getCanvas())} className="gap-2"><Archive className="h-4 w-4" /> Backup workspace</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => restoreInputRef.current?.click()} className="gap-2"><ArchiveRestore className="h-4 w-4" /> Restore backup…</DropdownMenuItem>
                     </DropdownMenuContent>
                 </DropdownMenu>
+                <input ref={importInputRef} type="file" accept={`${QCANVAS_EXTENSION},${QCANVAS_MIME},application/json`} className="hidden" onChange={handleImportFile} />
+                <input ref={restoreInputRef} type="file" accept={`.json,${BACKUP_MIME}`} className="hidden" onChange={handleRestoreFile} />
             </div>
 
             {/* Document Browser */}
             <Dialog open={browserOpen} onOpenChange={setBrowserOpen}>
                 <DialogContent className="max-w-lg">
                     <DialogHeader>
-                        <DialogTitle>Open Document</DialogTitle>
-                        <DialogDescription>Manage your saved documents.</DialogDescription>
+                        <DialogTitle>{browserView === 'trash' ? 'Trash' : 'Open Document'}</DialogTitle>
+                        <DialogDescription>{browserView === 'trash' ? `Deleted documents are removed for good after ${retentionDays} days.` : 'Manage your saved documents.'}</DialogDescription>
                     </DialogHeader>
-                    <div className="flex items-center gap-2 mb-3">
-                        <Input placeholder="Filter by name" value={filter} onChange={e => setFilter(e.target.value)} className="h-8" />
-                        <Button variant="outline" size="sm" onClick={handleCreate} className="h-8 gap-1"><Plus className="h-4 w-4" /> New</Button>
+                    <div className="flex items-center gap-1 -mt-1">
+                        <Button variant={browserView === 'documents' ? 'secondary' : 'ghost'} size="sm" className="h-7 text-xs" onClick={() => setBrowserView('documents')}>Documents</Button>
+                        <Button variant={browserView === 'trash' ? 'secondary' : 'ghost'} size="sm" className="h-7 text-xs gap-1" onClick={() => setBrowserView('trash')}><Trash2 className="h-3.5 w-3.5" /> Trash{trash.length > 0 && ` (${trash.length})`}</Button>
                     </div>
-                    <div className="border rounded-md divide-y max-h-80 overflow-y-auto">
-                        {filtered.map(d => {
-                            const isActive = d.id === activeId;
-                            const isRenaming = renamingId === d.id;
-                            return (
-                                <div key={d.id} className={cn('flex items-center gap-2 px-3 py-2 text-sm', isActive && 'bg-accent/40')}>
-                                    {d.preview ? <img src={d.preview} alt="preview" className="h-8 w-8 object-cover rounded-sm border" /> : <div className="h-8 w-8 flex items-center justify-center text-[10px] text-muted-foreground bg-muted rounded-sm">No</div>}
+                    {browserView === 'documents' ? (<>
+                        <div className="flex items-center gap-2 mb-3">
+                            <Input placeholder="Filter by name" value={filter} onChange={e => setFilter(e.target.value)} className="h-8" />
+                            <Button variant="outline" size="sm" onClick={handleCreate} className="h-8 gap-1"><Plus className="h-4 w-4" /> New</Button>
+                        </div>
+                        <div className="border rounded-md divide-y max-h-80 overflow-y-auto">
+                            {filtered.map(d => {
+                                const isActive = d.id === activeId;
+                                const isRenaming = renamingId === d.id;
+                                return (
+                                    <div key={d.id} className={cn('flex items-center gap-2 px-3 py-2 text-sm', isActive && 'bg-accent/40')}>
+                                        {d.preview ? <img src={d.preview} alt="preview" className="h-8 w-8 object-cover rounded-sm border" /> : <div className="h-8 w-8 flex items-center justify-center text-[10px] text-muted-foreground bg-muted rounded-sm">No</div>}
+                                        <div className="flex-1 min-w-0">
+                                            {isRenaming ? (
+                                                <form onSubmit={(e) => { e.preventDefault(); commitRename(); }}>
+                                                    <Input autoFocus value={renameValue} onChange={e => setRenameValue(e.target.value)} onBlur={commitRename} className="h-7 text-xs" />
+                                                </form>
+                                            ) : (
+                                                <button onClick={() => handleOpen(d.id)} className="text-left w-full truncate font-medium text-xs leading-tight">{d.name}</button>
+                                            )}
+                                            <div className="text-[10px] text-muted-foreground">{new Date(d.updatedAt).toLocaleString()}</div>
+                                        </div>
+                                        {isActive && !isRenaming && <Check className="h-4 w-4 text-green-500" />}
+                                        <div className="flex items-center gap-1">
+                                            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startRename(d.id, d.name)} aria-label="Rename"><FileIcon className="h-3.5 w-3.5" /></Button>
+                                            <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => handleDelete(d.id)} aria-label="Move to Trash"><Trash2 className="h-3.5 w-3.5" /></Button>
+                                            <Button variant="secondary" size="sm" className="h-7 text-xs" disabled={loadingDoc === d.id} onClick={() => handleOpen(d.id)}>{loadingDoc === d.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : 'Open'}</Button>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                            {filtered.length === 0 && <div className="py-10 text-center text-xs text-muted-foreground">No documents found</div>}
+                        </div>
+                    </>) : (
+                        <div className="border rounded-md divide-y max-h-80 overflow-y-auto">
+                            {trash.map(d => (
+                                <div key={d.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                                    {d.preview ? <img src={d.preview} alt="preview" className="h-8 w-8 object-cover rounded-sm border opacity-70" /> : <div className="h-8 w-8 flex items-center justify-center text-[10px] text-muted-foreground bg-muted rounded-sm">No</div>}
                                     <div className="flex-1 min-w-0">
-                                        {isRenaming ? (
-                                            <form onSubmit={(e) => { e.preventDefault(); commitRename(); }}>
-                                                <Input autoFocus value={renameValue} onChange={e => setRenameValue(e.target.value)} onBlur={commitRename} className="h-7 text-xs" />
-                                            </form>
-                                        ) : (
-                                            <button onClick={() => handleOpen(d.id)} className="text-left w-full truncate font-medium text-xs leading-tight">{d.name}</button>
-                                        )}
-                                        <div className="text-[10px] text-muted-foreground">{new Date(d.updatedAt).toLocaleString()}</div>
+                                        <div className="truncate font-medium text-xs leading-tight">{d.name}</div>
+                                        <div className="text-[10px] text-muted-foreground">Deleted {new Date(d.deletedAt).toLocaleString()} · {daysLeft(d.deletedAt)}d left</div>
                                     </div>
-                                    {isActive && !isRenaming && <Check className="h-4 w-4 text-green-500" />}
                                     <div className="flex items-center gap-1">
-                                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startRename(d.id, d.name)} aria-label="Rename"><FileIcon className="h-3.5 w-3.5" /></Button>
-                                        <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => requestDelete(d.id)} aria-label="Delete"><Trash2 className="h-3.5 w-3.5" /></Button>
-                                        <Button variant="secondary" size="sm" className="h-7 text-xs" disabled={loadingDoc === d.id} onClick={() => handleOpen(d.id)}>{loadingDoc === d.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : 'Open'}</Button>
+                                        <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => setPendingPurge({ id: d.id })} aria-label="Delete forever"><Trash2 className="h-3.5 w-3.5" /></Button>
+                                        <Button variant="secondary" size="sm" className="h-7 text-xs gap-1" onClick={() => restoreDocument(d.id)}><Undo2 className="h-3.5 w-3.5" /> Restore</Button>
                                     </div>
                                 </div>
-                            );
-                        })}
-                        {filtered.length === 0 && <div className="py-10 text-center text-xs text-muted-foreground">No documents found</div>}
-                    </div>
-                    <DialogFooter className="mt-4 flex justify-end">
+                            ))}
+                            {trash.length === 0 && <div className="py-10 text-center text-xs text-muted-foreground">Trash is empty</div>}
+                        </div>
+                    )}
+                    <DialogFooter className="mt-4 flex sm:justify-between items-center gap-2">
+                        {browserView === 'trash' ? (
+                            <div className="flex items-center gap-2">
+                                <label className="text-xs text-muted-foreground" htmlFor="trash-retention">Keep for</label>
+                                <select
+                                    id="trash-retention"
+                                    value={retentionDays}
+                                    onChange={e => setRetentionDays(Number(e.target.value))}
+                                    className="h-8 rounded-md border bg-background px-2 text-xs"
+                                >
+                                    {TRASH_RETENTION_OPTIONS.map(days => <option key={days} value={days}>{days} days</option>)}
+                                </select>
+                                <Button variant="outline" size="sm" className="h-8 text-destructive" disabled={trash.length === 0} onClick={() => setPendingPurge('all')}>Empty Trash</Button>
+                            </div>
+                        ) : <span />}
                         <Button variant="secondary" onClick={() => setBrowserOpen(false)}>Close</Button>
                     </DialogFooter>
                 </DialogContent>
             </Dialog>
 
+            <VersionHistoryDialog open={historyOpen} onOpenChange={setHistoryOpen} />
+
             {/* Reset Dialog */}
             <Dialog open={resetOpen} onOpenChange={(o) => { if (!o) { setResetOpen(false); setResetMode('idle'); } }}>
                 <DialogContent className="max-w-sm">
@@ -166,16 +267,33 @@ export const DocumentMenu = () => {
                 </DialogContent>
             </Dialog>
 
-            {/* Delete Dialog */}
-            <Dialog open={!!pendingDeleteId} onOpenChange={(o) => { if (!o) setPendingDeleteId(null); }}>
+            {/* Restore Backup Dialog */}
+            <Dialog open={!!restoreFile} onOpenChange={(o) => { if (!o && !restoring) setRestoreFile(null); }}>
+                <DialogContent className="max-w-sm">
+                    <DialogHeader>
+                        <DialogTitle>Restore Backup</DialogTitle>
+                        <DialogDescription>
+                            Merge keeps whichever copy of a document was edited last. Replace lets the backup win for documents that exist in both. Identical content is skipped either way.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter className="gap-2 flex flex-col sm:flex-row justify-end">
+                        <Button variant="outline" disabled={restoring} onClick={() => setRestoreFile(null)}>Cancel</Button>
+                        <Button variant="destructive" disabled={restoring} onClick={() => confirmRestore('replace')}>Replace</Button>
+                        <Button disabled={restoring} onClick={() => confirmRestore('merge')}>{restoring ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Merge'}</Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Permanent Delete Dialog */}
+            <Dialog open={!!pendingPurge} onOpenChange={(o) => { if (!o) setPendingPurge(null); }}>
                 <DialogContent className="max-w-sm">
                     <DialogHeader>
-                        <DialogTitle>Delete Document</DialogTitle>
-                        <DialogDescription>This action cannot be undone.</DialogDescription>
+                        <DialogTitle>{pendingPurge === 'all' ? 'Empty Trash' : 'Delete Forever'}</DialogTitle>
+                        <DialogDescription>{pendingPurge === 'all' ? 'All documents in the Trash will be deleted permanently.' : 'The document and its version history will be deleted permanently.'} This action cannot be undone.</DialogDescription>
                     </DialogHeader>
                     <DialogFooter className="gap-2 flex flex-col sm:flex-row justify-end">
-                        <Button variant="outline" onClick={() => setPendingDeleteId(null)}>Cancel</Button>
-                        <Button variant="destructive" onClick={confirmDelete}>Delete</Button>
+                        <Button variant="outline" onClick={() => setPendingPurge(null)}>Cancel</Button>
+                        <Button variant="destructive" onClick={confirmPurge}>Delete</Button>
                     </DialogFooter>
                 </DialogContent>
             </Dialog>
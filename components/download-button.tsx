@@ -4,10 +4,12 @@ import { useCallback, useState } from "react";
 import { Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-import { exportActiveOrCanvasToPNGBlob } from "@/lib/fabric/export";
+import { exportActiveOrCanvasToPNGBlob, frameFileName } from "@/lib/fabric/export";
+import { isFrame } from "@/lib/fabric/frames";
+import { downloadBlob } from "@/lib/utils";
 
 /**
- * Floating download button. Exports active selection or all objects (cropped) to PNG.
+ * Floating download button. Exports the selected frame, the active selection or all objects (cropped) to PNG.
  */
 export const DownloadButton = () => {
     const [busy, setBusy] = useState(false);
@@ -17,15 +19,8 @@ export const DownloadButton = () => {
         try {
             setBusy(true);
             const blob = await exportActiveOrCanvasToPNGBlob(canvas);
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement("a");
-            a.href = url;
-            const hasActive = !!canvas.getActiveObject();
-            a.download = hasActive ? "selection.png" : "canvas.png";
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
+            const active = canvas.getActiveObject();
+            downloadBlob(blob, isFrame(active) ? `${frameFileName(active)}.png` : active ? "selection.png" : "canvas.png");
             toast.success("Download started");
         } catch (e) {
             console.warn("Download failed", e);
@@ -40,7 +35,7 @@ export const DownloadButton = () => {
                 variant="outline"
                 size="icon"
                 aria-label="Download PNG"
-                title="Download PNG (active selection or all objects)"
+                title="Download PNG (selected frame, active selection or all objects)"
                 disabled={busy}
                 onClick={handleDownload}
                 className="backdrop-blur-md bg-popover/90 border shadow-lg hover:bg-accent/60"
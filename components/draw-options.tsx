@@ -0,0 +1,52 @@
+"use client";
+
+import { Highlighter, Pencil } from 'lucide-react';
+import { useMainStore } from '@/store/mainStore';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Separator } from '@/components/ui/separator';
+import { CANVAS_COLOR_SWATCHES } from '@/lib/colors';
+import { DRAW_WIDTH_RANGE, DrawVariant } from '@/lib/fabric/drawing';
+import { cn } from '@/lib/utils';
+
+// Brush options shown under the toolbar while the draw tool is active
+export const DrawOptions = () => {
+    const { variant, styles } = useMainStore(s => s.drawSettings);
+    const setVariant = useMainStore(s => s.setDrawVariant);
+    const setBrushStyle = useMainStore(s => s.setBrushStyle);
+    const style = styles[variant];
+
+    return (
+        <div className="mt-2 flex items-center gap-2 rounded-lg border bg-popover/90 p-1.5 shadow-lg backdrop-blur-md">
+            <ToggleGroup type="single" value={variant} onValueChange={(v) => { if (v) setVariant(v as DrawVariant); }}>
+                <ToggleGroupItem value="pencil" aria-label="Pencil" className="size-8 p-0"><Pencil className="h-4 w-4" /></ToggleGroupItem>
+                <ToggleGroupItem value="highlighter" aria-label="Highlighter" className="size-8 p-0"><Highlighter className="h-4 w-4" /></ToggleGroupItem>
+            </ToggleGroup>
+            <Separator orientation="vertical" className="h-6" />
+            <div className="flex items-center gap-1">
+                {CANVAS_COLOR_SWATCHES.map(c => (
+                    <button
+                        key={c}
+                        type="button"
+                        aria-label={`Brush color ${c}`}
+                        onClick={() => setBrushStyle({ color: c })}
+                        className={cn('size-5 rounded-full border ring-offset-background transition', style.color.toLowerCase() === c && 'ring-2 ring-primary ring-offset-1')}
+                        style={{ background: c }}
+                    />
+                ))}
+            </div>
+            <Separator orientation="vertical" className="h-6" />
+            <input
+                type="range"
+                min={DRAW_WIDTH_RANGE.min}
+                max={DRAW_WIDTH_RANGE.max}
+                value={style.width}
+                onChange={e => setBrushStyle({ width: Number(e.target.value) })}
+                className="w-24 accent-primary"
+                aria-label="Brush width"
+            />
+            <span className="w-6 text-right text-[11px] tabular-nums text-muted-foreground">{style.width}</span>
+        </div>
+    );
+};
+
+export default DrawOptions;
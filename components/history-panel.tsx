@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { GitBranch, History, Redo2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { MacroMenu } from '@/components/macro-menu';
+import { useHistory } from '@/hooks/useHistory';
+import { cn, formatRelativeTime } from '@/lib/utils';
+
+// Ticks while the panel is open so relative times stay current
+const useNow = (active: boolean, intervalMs = 15000) => {
+    const [now, setNow] = useState(() => Date.now());
+    useEffect(() => {
+        if (!active) return;
+        setNow(Date.now());
+        const t = setInterval(() => setNow(Date.now()), intervalMs);
+        return () => clearInterval(t);
+    }, [active, intervalMs]);
+    return now;
+};
+
+/**
+ * Floating undo / redo buttons plus a History panel listing the undo tree; clicking a step undoes / redoes up to it
+ * (switching to its branch when it lies on an abandoned one).
+ */
+export const HistoryPanel = () => {
+    const { past, future, tree, canUndo, canRedo, undo, redo, jumpTo } = useHistory();
+    const [open, setOpen] = useState(false);
+    const now = useNow(open);
+    const currentRef = useRef<HTMLButtonElement>(null);
+
+    const current = past.at(-1)?.id ?? null;
+    useEffect(() => { if (open) currentRef.current?.scrollIntoView({ block: 'nearest' }); }, [open, current]);
+
+    const itemClass = 'flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs hover:bg-accent/40';
+
+    return (
+        <div className="hidden md:flex fixed bottom-4 right-4 z-50 items-center gap-1 rounded-lg border bg-popover/90 p-1 shadow-lg backdrop-blur-md">
+            <Tooltip>
+                <TooltipTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" disabled={!canUndo} onClick={undo} aria-label="Undo"><Undo2 className="h-4 w-4" /></Button>
+                </TooltipTrigger>
+                <TooltipContent>{canUndo ? `Undo ${past.at(-1)!.label}` : 'Nothing to undo'}</TooltipContent>
+            </Tooltip>
+            <Tooltip>
+                <TooltipTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" disabled={!canRedo} onClick={redo} aria-label="Redo"><Redo2 className="h-4 w-4" /></Button>
+                </TooltipTrigger>
+                <TooltipContent>{canRedo ? `Redo ${future[0].label}` : 'Nothing to redo'}</TooltipContent>
+            </Tooltip>
+            <Popover open={open} onOpenChange={setOpen}>
+                <PopoverTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Edit history"><History className="h-4 w-4" /></Button>
+                </PopoverTrigger>
+                <PopoverContent side="top" align="end" className="w-64 p-0">
+                    <div className="border-b px-3 py-2 text-[11px] font-medium tracking-wide text-muted-foreground">History</div>
+                    <div className="max-h-80 overflow-y-auto py-1">
+                        <button type="button" className={cn(itemClass, current === null && 'bg-accent/60 font-medium')} onClick={() => jumpTo(null)} ref={current === null ? currentRef : undefined}>
+                            <span className="flex-1 truncate">Initial state</span>
+                        </button>
+                        {tree.map(e => (
+                            <button
+                                key={e.id}
+                                type="button"
+                                className={cn(itemClass,
+                                    e.status === 'current' && 'bg-accent/60 font-medium',
+                                    e.status === 'future' && 'text-muted-foreground/70 italic',
+                                    e.status === 'branch' && 'text-muted-foreground/70')}
+                                style={{ paddingLeft: `${0.75 + e.depth * 0.75}rem` }}
+                                onClick={() => jumpTo(e.id)}
+                                ref={e.status === 'current' ? currentRef : undefined}
+                                title={e.status === 'branch' ? 'Switch to this branch' : undefined}
+                            >
+                                {e.depth > 0 && <GitBranch className="h-3 w-3 shrink-0" />}
+                                <span className="flex-1 truncate">{e.label}</span>
+                                <span className="text-[10px] text-muted-foreground">{formatRelativeTime(e.stamp, now)}</span>
+                            </button>
+                        ))}
+                    </div>
+                </PopoverContent>
+            </Popover>
+            <MacroMenu />
+        </div>
+    );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Circle, Clapperboard, Play, Square, Trash2 } from 'lucide-react';
+import { useMainStore } from '@/store/mainStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+/**
+ * Record / replay editing macros: edits made while recording are saved as selection relative steps,
+ * playing a macro applies them to the current selection as one undo step.
+ */
+export const MacroMenu = () => {
+    const macros = useMainStore(s => s.macros);
+    const recording = useMainStore(s => s.macroRecording);
+    const loadMacros = useMainStore(s => s.loadMacros);
+    const startRecording = useMainStore(s => s.startMacroRecording);
+    const stopRecording = useMainStore(s => s.stopMacroRecording);
+    const cancelRecording = useMainStore(s => s.cancelMacroRecording);
+    const playMacro = useMainStore(s => s.playMacro);
+    const deleteMacro = useMainStore(s => s.deleteMacro);
+
+    const [open, setOpen] = useState(false);
+    const [name, setName] = useState('');
+    const [playing, setPlaying] = useState<string | null>(null);
+
+    useEffect(() => { if (open) loadMacros(); }, [open, loadMacros]);
+
+    const handleRecord = () => {
+        const canvas = window.fabricCanvas; if (!canvas) return;
+        startRecording(canvas);
+        setName('');
+        setOpen(false); // get the popover out of the way while editing
+    };
+    const handleStop = async () => { await stopRecording(name); setName(''); };
+    const handlePlay = async (id: string) => {
+        const canvas = window.fabricCanvas; if (!canvas) return;
+        setPlaying(id);
+        try { await playMacro(canvas, id); } finally { setPlaying(null); }
+    };
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <Button variant="ghost" size="icon" className="relative h-8 w-8" aria-label="Macros">
+                    <Clapperboard className="h-4 w-4" />
+                    {recording && <span className="absolute right-1 top-1 size-2 rounded-full bg-red-500 animate-pulse" />}
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent side="top" align="end" className="w-64 p-0">
+                <div className="border-b px-3 py-2 text-[11px] font-medium tracking-wide text-muted-foreground">Macros</div>
+                <div className="border-b p-2">
+                    {recording ? (
+                        <form className="flex flex-col gap-2" onSubmit={(e) => { e.preventDefault(); handleStop(); }}>
+                            <Input placeholder="Macro name" value={name} onChange={e => setName(e.target.value)} className="h-8 text-xs" autoFocus />
+                            <div className="flex gap-2">
+                                <Button type="submit" size="sm" className="h-7 flex-1 gap-1 text-xs"><Square className="h-3 w-3" /> Stop & save</Button>
+                                <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={cancelRecording}>Discard</Button>
+                            </div>
+                        </form>
+                    ) : (
+                        <Button variant="outline" size="sm" className="h-7 w-full gap-1 text-xs" onClick={handleRecord}>
+                            <Circle className="h-3 w-3 fill-red-500 text-red-500" /> Record macro
+                        </Button>
+                    )}
+                </div>
+                <div className="max-h-64 overflow-y-auto py-1">
+                    {macros.map(m => (
+                        <div key={m.id} className="group flex items-center gap-1 px-3 py-1 text-xs hover:bg-accent/40">
+                            <span className="flex-1 truncate" title={m.name}>{m.name}</span>
+                            <span className="text-[10px] text-muted-foreground">{m.stepCount} {m.stepCount === 1 ? 'step' : 'steps'}</span>
+                            <Button variant="ghost" size="icon" className="h-6 w-6" disabled={recording || playing !== null} onClick={() => handlePlay(m.id)} aria-label={`Play ${m.name}`}>
+                                <Play className={cn('h-3 w-3', playing === m.id && 'animate-pulse')} />
+                            </Button>
+                            <Button variant="ghost" size="icon" className="h-6 w-6 opacity-0 group-hover:opacity-100" onClick={() => deleteMacro(m.id)} aria-label={`Delete ${m.name}`}>
+                                <Trash2 className="h-3 w-3" />
+                            </Button>
+                        </div>
+                    ))}
+                    {macros.length === 0 && <div className="py-6 text-center text-[11px] text-muted-foreground">No macros yet</div>}
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+};
+
+export default MacroMenu;
@@ -0,0 +1,41 @@
+"use client";
+
+import { useSyncExternalStore } from 'react';
+import { Check, Scissors, Spline, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { getPathEditor, getPathEditState, stopPathEditing, subscribePathEditing } from '@/lib/fabric/pathEditing';
+
+// Node editing actions shown under the toolbar while a path is being edited (double-click a path to start)
+export const PathEditBar = () => {
+    const state = useSyncExternalStore(subscribePathEditing, getPathEditState, () => null);
+    if (!state) return null;
+    const editor = getPathEditor();
+    const hint = state.node || state.segment ? null : 'Drag nodes · double-click outline to add · click outline to pick a segment';
+    return (
+        <div className="mt-2 flex items-center gap-1 rounded-lg border bg-popover/90 p-1.5 shadow-lg backdrop-blur-md">
+            {hint && <span className="px-1.5 text-[11px] text-muted-foreground">{hint}</span>}
+            {state.node && (
+                <>
+                    <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={() => editor?.toggleSelectedNodeType()}>
+                        <Spline className="h-3.5 w-3.5" /> {state.node.smooth ? 'Make corner' : 'Make smooth'}
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={() => editor?.deleteSelectedNode()}>
+                        <Trash2 className="h-3.5 w-3.5" /> Delete node
+                    </Button>
+                </>
+            )}
+            {state.segment && (
+                <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={() => editor?.deleteSelectedSegment()}>
+                    <Scissors className="h-3.5 w-3.5" /> Delete segment
+                </Button>
+            )}
+            <Separator orientation="vertical" className="mx-0.5 h-5" />
+            <Button size="sm" className="h-7 gap-1 text-xs" onClick={() => stopPathEditing()}>
+                <Check className="h-3.5 w-3.5" /> Done
+            </Button>
+        </div>
+    );
+};
+
+export default PathEditBar;
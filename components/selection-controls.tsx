@@ -6,9 +6,17 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover';
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip';
-import { Trash2, PaintBucket, Link2, Link2Off, ArrowUpToLine, ArrowUp, ArrowDown, ArrowDownToLine } from 'lucide-react';
+import { Trash2, PaintBucket, Link2, Link2Off, ArrowUpToLine, ArrowUp, ArrowDown, ArrowDownToLine, Minus, Plus, SquaresUnite, SquaresSubtract, SquaresIntersect, SquaresExclude, Slash, CornerDownRight, Crop, ImageDown, FileDown } from 'lucide-react';
 import { CANVAS_COLOR_SWATCHES } from '@/lib/colors';
 import { cn } from '@/lib/utils';
+import { POLYGON_SIDES_RANGE, STAR_INNER_RATIO_RANGE, STAR_POINTS_RANGE } from '@/lib/fabric/polygons';
+import { ARROW_HEADS, ArrowHead, arrowHeadPath } from '@/lib/fabric/arrows';
+import { BOOLEAN_OPS, BooleanOp } from '@/lib/fabric/booleans';
+import type { ConnectorRouting } from '@/lib/fabric/connectors';
+import { FRAME_DEFAULTS, isFrame } from '@/lib/fabric/frames';
+import { exportFrameToPNGBlob, exportFrameToSVGString, frameFileName } from '@/lib/fabric/export';
+import { downloadBlob } from '@/lib/utils';
+import { toast } from 'sonner';
 import { ColorPicker } from './color-picker';
 
 // Shared types (lightweight subset)
@@ -16,18 +24,27 @@ export interface SelectionSnapshot {
     has: boolean;
     editingText: boolean;
     fill: string | null;
-    shape?: { kind: string; rect?: { rx: number | null; ry: number | null } } | null;
-    capabilities?: { fill?: boolean; cornerRadius?: boolean };
+    shape?: {
+        kind: string;
+        rect?: { rx: number | null; ry: number | null };
+        polygon?: { sides: number | null; innerRatio: number | null };
+        arrow?: { startHead: ArrowHead | null; endHead: ArrowHead | null };
+        connector?: { routing: ConnectorRouting | null };
+        frame?: { name: string; clipContent: boolean; background: boolean };
+    } | null;
+    capabilities?: { fill?: boolean; cornerRadius?: boolean; polygon?: boolean; arrow?: boolean; connector?: boolean; boolean?: boolean; frame?: boolean };
 }
 
 interface CommonFns {
+    applyPropertiesToSelection: (canvas: fabric.Canvas, props: Record<string, unknown>, label: string) => void;
     applyFillToSelection: (canvas: fabric.Canvas, color: string) => void;
-    applyRectCornerRadiusToSelection: (canvas: fabric.Canvas, r: { rx?: number; ry?: number }, opts?: { record?: boolean }) => void;
+    applyRectCornerRadiusToSelection: (canvas: fabric.Canvas, r: { rx?: number; ry?: number }) => void;
     bringForward: (canvas: fabric.Canvas) => void;
     sendBackward: (canvas: fabric.Canvas) => void;
     bringToFront: (canvas: fabric.Canvas) => void;
     sendToBack: (canvas: fabric.Canvas) => void;
     deleteSelection: (canvas: fabric.Canvas) => void;
+    booleanSelection: (canvas: fabric.Canvas, op: BooleanOp) => Promise<void>;
 }
 
 // ----- Fill Swatches -----
@@ -98,13 +115,14 @@ export const CornerRadiusControl: React.FC<{ selection: SelectionSnapshot; fns:
     const enabled = !!selection.capabilities?.cornerRadius && selection.shape?.kind === 'rect';
     if (!enabled) return null;
 
-    const commit = (which: 'rx' | 'ry', v: string, record = false) => {
+    // Keystrokes of one burst coalesce into one undo step (same 'Corner Radius' edit on the same objects)
+    const commit = (which: 'rx' | 'ry', v: string) => {
         const canvas = window.fabricCanvas; if (!canvas) return;
         const num = parseFloat(v); if (isNaN(num)) return;
         if (lockRadius) {
-            fns.applyRectCornerRadiusToSelection(canvas, { rx: num, ry: num }, { record });
+            fns.applyRectCornerRadiusToSelection(canvas, { rx: num, ry: num });
         } else {
-            fns.applyRectCornerRadiusToSelection(canvas, which === 'rx' ? { rx: num } : { ry: num }, { record });
+            fns.applyRectCornerRadiusToSelection(canvas, which === 'rx' ? { rx: num } : { ry: num });
         }
     };
     const inputClass = cn('h-8 text-xs px-2', size === 'sm' && 'h-8');
@@ -129,7 +147,7 @@ export const CornerRadiusControl: React.FC<{ selection: SelectionSnapshot; fns:
                             type="button"
                             onClick={() => {
                                 const canvas = window.fabricCanvas; if (!canvas) return;
-                                fns.applyRectCornerRadiusToSelection(canvas, { rx: p, ry: p }, { record: true });
+                                fns.applyRectCornerRadiusToSelection(canvas, { rx: p, ry: p });
                             }}
                             className={cn('h-7 rounded-md text-[11px] font-medium border transition-colors flex items-center justify-center',
                                 (rectRx === p && rectRy === p) ? 'bg-accent text-accent-foreground border-transparent shadow-sm' : 'bg-background/40 hover:bg-accent/40 border-border/60')}
@@ -145,8 +163,8 @@ export const CornerRadiusControl: React.FC<{ selection: SelectionSnapshot; fns:
                     step={1}
                     value={tempRx}
                     placeholder={rectRx == null ? '—' : undefined}
-                    onChange={e => { const v = e.target.value; setTempRx(v); if (lockRadius) setTempRy(v); if (v !== '' && !isNaN(Number(v))) commit('rx', v, false); }}
-                    onBlur={e => commit('rx', e.target.value, true)}
+                    onChange={e => { const v = e.target.value; setTempRx(v); if (lockRadius) setTempRy(v); if (v !== '' && !isNaN(Number(v))) commit('rx', v); }}
+                    onBlur={e => commit('rx', e.target.value)}
                     className={inputClass}
                     aria-label="Horizontal corner radius"
                 />
@@ -156,8 +174,8 @@ export const CornerRadiusControl: React.FC<{ selection: SelectionSnapshot; fns:
                     step={1}
                     value={tempRy}
                     placeholder={rectRy == null ? '—' : undefined}
-                    onChange={e => { const v = e.target.value; setTempRy(v); if (lockRadius) setTempRx(v); if (!lockRadius && v !== '' && !isNaN(Number(v))) commit('ry', v, false); }}
-                    onBlur={e => commit('ry', e.target.value, true)}
+                    onChange={e => { const v = e.target.value; setTempRy(v); if (lockRadius) setTempRx(v); if (!lockRadius && v !== '' && !isNaN(Number(v))) commit('ry', v); }}
+                    onBlur={e => commit('ry', e.target.value)}
                     disabled={lockRadius}
                     className={cn(inputClass, 'disabled:opacity-60')}
                     aria-label="Vertical corner radius"
@@ -167,6 +185,225 @@ export const CornerRadiusControl: React.FC<{ selection: SelectionSnapshot; fns:
     );
 };
 
+// ----- Polygon / Star -----
+export const PolygonControl: React.FC<{ selection: SelectionSnapshot; fns: CommonFns; size?: 'sm' | 'md'; className?: string; }> = ({ selection, fns, size = 'md', className }) => {
+    const polygon = selection.shape?.polygon;
+    if (!selection.capabilities?.polygon || !polygon) return null;
+    const star = selection.shape?.kind === 'star';
+    const range = star ? STAR_POINTS_RANGE : POLYGON_SIDES_RANGE;
+    const apply = (props: Record<string, unknown>, label: string) => { const canvas = window.fabricCanvas; if (canvas) fns.applyPropertiesToSelection(canvas, props, label); };
+    const setSides = (n: number) => apply({ sides: Math.min(range.max, Math.max(range.min, n)) }, star ? 'Star Points' : 'Polygon Sides');
+    const btnClass = cn('p-0', size === 'sm' ? 'h-8 w-8' : 'h-8 w-9');
+    return (
+        <div className={cn('flex flex-col gap-1.5', className)}>
+            <span className="text-[11px] font-medium tracking-wide text-muted-foreground">{star ? 'Points' : 'Sides'}</span>
+            <div className="flex items-center gap-1">
+                <Button variant="secondary" size="sm" className={btnClass} aria-label={star ? 'Fewer points' : 'Fewer sides'} disabled={polygon.sides != null && polygon.sides <= range.min} onClick={() => setSides((polygon.sides ?? range.min) - 1)}><Minus className="h-4 w-4" /></Button>
+                <span className="flex-1 text-center text-xs tabular-nums">{polygon.sides ?? '—'}</span>
+                <Button variant="secondary" size="sm" className={btnClass} aria-label={star ? 'More points' : 'More sides'} disabled={polygon.sides != null && polygon.sides >= range.max} onClick={() => setSides((polygon.sides ?? range.min) + 1)}><Plus className="h-4 w-4" /></Button>
+            </div>
+            {star && (
+                <>
+                    <span className="text-[11px] font-medium tracking-wide text-muted-foreground">Inner radius</span>
+                    <input
+                        type="range"
+                        min={STAR_INNER_RATIO_RANGE.min}
+                        max={STAR_INNER_RATIO_RANGE.max}
+                        step={0.05}
+                        value={polygon.innerRatio ?? 0.5}
+                        onChange={e => apply({ innerRatio: Number(e.target.value) }, 'Star Inner Radius')}
+                        className="w-full accent-primary"
+                        aria-label="Star inner radius"
+                    />
+                </>
+            )}
+        </div>
+    );
+};
+
+// ----- Arrow Heads -----
+const HEAD_LABELS: Record<ArrowHead, string> = { none: 'None', triangle: 'Triangle', open: 'Open', circle: 'Circle', bar: 'Bar' };
+
+// Head preview drawn with the same geometry as the canvas (pointing right, or left for the start end)
+const ArrowHeadPreview: React.FC<{ head: ArrowHead; end: 'start' | 'end' }> = ({ head, end }) => {
+    const tip = end === 'end' ? { x: 20, y: 8 } : { x: 4, y: 8 };
+    const from = end === 'end' ? { x: 4, y: 8 } : { x: 20, y: 8 };
+    const path = arrowHeadPath(head, tip, from, 8);
+    return (
+        <svg viewBox="0 0 24 16" className="h-4 w-6" stroke="currentColor" strokeWidth={1.5} aria-hidden>
+            <line x1={from.x} y1={8} x2={tip.x} y2={8} />
+            {path && <path d={path.d} fill={path.filled ? 'currentColor' : 'none'} stroke={path.filled ? 'none' : 'currentColor'} />}
+        </svg>
+    );
+};
+
+export const ArrowHeadControl: React.FC<{ selection: SelectionSnapshot; fns: CommonFns; size?: 'sm' | 'md'; className?: string; }> = ({ selection, fns, size = 'md', className }) => {
+    const arrow = selection.shape?.arrow;
+    if (!selection.capabilities?.arrow || !arrow) return null;
+    const apply = (end: 'start' | 'end', head: ArrowHead) => {
+        const canvas = window.fabricCanvas; if (!canvas) return;
+        fns.applyPropertiesToSelection(canvas, end === 'start' ? { startHead: head } : { endHead: head }, 'Arrow Heads');
+    };
+    const row = (end: 'start' | 'end') => {
+        const current = end === 'start' ? arrow.startHead : arrow.endHead;
+        return (
+            <div className="flex flex-col gap-1">
+                <span className="text-[11px] text-muted-foreground">{end === 'start' ? 'Start' : 'End'}</span>
+                <div className="grid grid-cols-5 gap-1">
+                    {ARROW_HEADS.map(head => (
+                        <Button
+                            key={head}
+                            variant={current === head ? 'default' : 'secondary'}
+                            size="sm"
+                            className={cn('px-0 has-[>svg]:px-0', size === 'sm' ? 'h-7' : 'h-8')}
+                            aria-label={`${end === 'start' ? 'Start' : 'End'} head: ${HEAD_LABELS[head]}`}
+                            aria-pressed={current === head}
+                            onClick={() => apply(end, head)}
+                        >
+                            <ArrowHeadPreview head={head} end={end} />
+                        </Button>
+                    ))}
+                </div>
+            </div>
+        );
+    };
+    return (
+        <div className={cn('flex flex-col gap-1.5', className)}>
+            <span className="text-[11px] font-medium tracking-wide text-muted-foreground">Arrow heads</span>
+            {row('start')}
+            {row('end')}
+        </div>
+    );
+};
+
+// ----- Connector Routing -----
+const ROUTINGS: { routing: ConnectorRouting; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+    { routing: 'straight', label: 'Straight', icon: Slash },
+    { routing: 'elbow', label: 'Elbow', icon: CornerDownRight },
+];
+
+export const ConnectorControl: React.FC<{ selection: SelectionSnapshot; fns: CommonFns; size?: 'sm' | 'md'; className?: string; }> = ({ selection, fns, size = 'md', className }) => {
+    const connector = selection.shape?.connector;
+    if (!selection.capabilities?.connector || !connector) return null;
+    const apply = (routing: ConnectorRouting) => {
+        const canvas = window.fabricCanvas; if (!canvas) return;
+        fns.applyPropertiesToSelection(canvas, { routing }, 'Connector Routing');
+    };
+    return (
+        <div className={cn('flex flex-col gap-1.5', className)}>
+            <span className="text-[11px] font-medium tracking-wide text-muted-foreground">Routing</span>
+            <div className="grid grid-cols-2 gap-1">
+                {ROUTINGS.map(({ routing, label, icon: Icon }) => (
+                    <Button
+                        key={routing}
+                        variant={connector.routing === routing ? 'default' : 'secondary'}
+                        size="sm"
+                        className={cn('gap-1 text-xs', size === 'sm' ? 'h-7' : 'h-8')}
+                        aria-pressed={connector.routing === routing}
+                        onClick={() => apply(routing)}
+                    >
+                        <Icon className="h-3.5 w-3.5" /> {label}
+                    </Button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// ----- Frame -----
+export const FrameControl: React.FC<{ selection: SelectionSnapshot; fns: CommonFns; size?: 'sm' | 'md'; className?: string; }> = ({ selection, fns, size = 'md', className }) => {
+    // Always establish hooks (no early return) to preserve consistent hook order across renders.
+    const frame = selection.capabilities?.frame ? selection.shape?.frame ?? null : null;
+    const [name, setName] = React.useState('');
+    React.useEffect(() => { setName(frame?.name ?? ''); }, [frame?.name]);
+    if (!frame) return null;
+
+    const apply = (props: Record<string, unknown>, label: string) => {
+        const canvas = window.fabricCanvas; if (canvas) fns.applyPropertiesToSelection(canvas, props, label);
+    };
+    const rename = () => { if (name.trim()) apply({ name: name.trim() }, 'Rename frame'); else setName(frame.name); };
+    const exportAs = async (format: 'png' | 'svg') => {
+        const canvas = window.fabricCanvas; const active = canvas?.getActiveObject();
+        if (!canvas || !isFrame(active)) return;
+        try {
+            const blob = format === 'png'
+                ? await exportFrameToPNGBlob(canvas, active)
+                : new Blob([await exportFrameToSVGString(canvas, active)], { type: 'image/svg+xml' });
+            downloadBlob(blob, `${frameFileName(active)}.${format}`);
+        } catch (e) {
+            console.warn('Frame export failed', e);
+            toast.error('Export failed');
+        }
+    };
+    const btnClass = cn('gap-1 text-xs', size === 'sm' ? 'h-7' : 'h-8');
+    return (
+        <div className={cn('flex flex-col gap-1.5', className)}>
+            <span className="text-[11px] font-medium tracking-wide text-muted-foreground">Frame</span>
+            <Input
+                value={name}
+                onChange={e => setName(e.target.value)}
+                onBlur={rename}
+                onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                className="h-8 text-xs px-2"
+                aria-label="Frame name"
+            />
+            <div className="grid grid-cols-2 gap-1">
+                <Button
+                    variant={frame.clipContent ? 'default' : 'secondary'}
+                    size="sm"
+                    className={btnClass}
+                    aria-pressed={frame.clipContent}
+                    onClick={() => apply({ clipContent: !frame.clipContent }, 'Frame Clipping')}
+                >
+                    <Crop className="h-3.5 w-3.5" /> Clip
+                </Button>
+                <Button
+                    variant={frame.background ? 'default' : 'secondary'}
+                    size="sm"
+                    className={btnClass}
+                    aria-pressed={frame.background}
+                    onClick={() => apply({ fill: frame.background ? null : FRAME_DEFAULTS.fill }, 'Frame Background')}
+                >
+                    <PaintBucket className="h-3.5 w-3.5" /> Fill
+                </Button>
+                <Button variant="secondary" size="sm" className={btnClass} onClick={() => void exportAs('png')}>
+                    <ImageDown className="h-3.5 w-3.5" /> PNG
+                </Button>
+                <Button variant="secondary" size="sm" className={btnClass} onClick={() => void exportAs('svg')}>
+                    <FileDown className="h-3.5 w-3.5" /> SVG
+                </Button>
+            </div>
+        </div>
+    );
+};
+
+// ----- Boolean Operations -----
+const BOOLEAN_ICONS: Record<BooleanOp, React.ComponentType<{ className?: string }>> = {
+    union: SquaresUnite,
+    subtract: SquaresSubtract,
+    intersect: SquaresIntersect,
+    exclude: SquaresExclude,
+};
+
+export const BooleanControl: React.FC<{ selection: SelectionSnapshot; fns: CommonFns; size?: 'sm' | 'md'; className?: string; }> = ({ selection, fns, size = 'md', className }) => {
+    if (!selection.capabilities?.boolean) return null;
+    const act = (op: BooleanOp) => { const canvas = window.fabricCanvas; if (canvas) void fns.booleanSelection(canvas, op); };
+    const btnSize = size === 'sm' ? 'h-8 px-0' : 'h-8 px-2';
+    return (
+        <div className={cn('flex flex-col gap-2', className)}>
+            <span className="text-[11px] font-medium tracking-wide text-muted-foreground">Combine</span>
+            <div className="grid grid-cols-4 gap-1">
+                {BOOLEAN_OPS.map(({ op, label }) => {
+                    const Icon = BOOLEAN_ICONS[op];
+                    return (
+                        <Tooltip key={op}><TooltipTrigger asChild><Button variant="secondary" size="sm" aria-label={label} onClick={() => act(op)} className={cn(btnSize, 'transition-transform hover:shadow-sm active:scale-[0.94]')}><Icon className="h-4 w-4" /></Button></TooltipTrigger><TooltipContent side="top">{label}</TooltipContent></Tooltip>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
 // ----- Layer Controls -----
 export const LayerControls: React.FC<{ selection: SelectionSnapshot; fns: CommonFns; size?: 'sm' | 'md'; className?: string; }> = ({ selection, fns, size = 'md', className }) => {
     if (!selection.has) return null;
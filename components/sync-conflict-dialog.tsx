@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from 'react';
+import * as fabric from 'fabric';
+import { Loader2 } from 'lucide-react';
+import { useMainStore } from '@/store/mainStore';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+const getCanvas = () => (typeof window !== 'undefined' ? window.fabricCanvas as fabric.Canvas | undefined : undefined);
+
+/**
+ * Shown when another tab saved the active document while this tab still had unsaved edits.
+ */
+export const SyncConflictDialog = () => {
+    const conflict = useMainStore(s => s.syncConflict);
+    const name = useMainStore(s => s.documentName);
+    const resolveSyncConflict = useMainStore(s => s.resolveSyncConflict);
+    const [busy, setBusy] = useState(false);
+
+    const resolve = async (choice: 'mine' | 'theirs' | 'copy') => {
+        setBusy(true);
+        try { await resolveSyncConflict(choice, getCanvas()); } finally { setBusy(false); }
+    };
+
+    return (
+        // Closing without a choice keeps the conflict pending; the next save will ask again
+        <Dialog open={!!conflict} onOpenChange={(o) => { if (!o && !busy) useMainStore.setState({ syncConflict: null }); }}>
+            <DialogContent className="max-w-sm">
+                <DialogHeader>
+                    <DialogTitle>Edited in another tab</DialogTitle>
+                    <DialogDescription>
+                        “{name}” was saved from another tab{conflict ? ` at ${new Date(conflict.theirUpdatedAt).toLocaleTimeString()}` : ''} while you had unsaved changes here.
+                    </DialogDescription>
+                </DialogHeader>
+                <DialogFooter className="gap-2 flex flex-col sm:flex-row justify-end">
+                    <Button variant="outline" disabled={busy} onClick={() => resolve('theirs')}>Take theirs</Button>
+                    <Button variant="secondary" disabled={busy} onClick={() => resolve('copy')}>Save as copy</Button>
+                    <Button disabled={busy} onClick={() => resolve('mine')}>{busy ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Keep mine'}</Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default SyncConflictDialog;
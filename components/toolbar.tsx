@@ -7,12 +7,15 @@ import { useMainStore } from "@/store/mainStore";
 import { CanvasTool } from "@/types/canvas";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { MousePointer2, Square, Circle, Slash, Library, Hand, X, Type } from "lucide-react";
+import { MousePointer2, Square, Circle, Slash, Library, Hand, X, Type, Hexagon, Star, MoveUpRight, Pencil, PenTool, Workflow, Frame } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuTrigger } from "./ui/dropdown-menu";
 import { ScrollArea } from "./ui/scroll-area";
 import { Separator } from "./ui/separator";
 import { HoverCard, HoverCardTrigger, HoverCardContent } from "./ui/hover-card";
 import { toast } from "sonner";
+import { resolveAssetRefs } from "@/lib/assets";
+import { DrawOptions } from "./draw-options";
+import { PathEditBar } from "./path-edit-bar";
 
 export const Toolbar = () => {
     const tool = useMainStore(s => s.tool);
@@ -30,6 +33,13 @@ export const Toolbar = () => {
         { id: "rect", label: "Rectangle (R)", icon: Square },
         { id: "ellipse", label: "Ellipse (E)", icon: Circle },
         { id: "line", label: "Line (L)", icon: Slash },
+        { id: "arrow", label: "Arrow (A)", icon: MoveUpRight },
+        { id: "polygon", label: "Polygon (G)", icon: Hexagon },
+        { id: "star", label: "Star (S)", icon: Star },
+        { id: "draw", label: "Draw (D)", icon: Pencil },
+        { id: "pen", label: "Pen (P)", icon: PenTool },
+        { id: "connector", label: "Connector (C)", icon: Workflow },
+        { id: "frame", label: "Frame (F)", icon: Frame },
         { id: "text", label: "Text (T)", icon: Type },
     ];
     const gallery = useMainStore(s => s.gallery);
@@ -57,7 +67,8 @@ export const Toolbar = () => {
             setGalleryOpen(false);
         };
         const descriptors = Array.isArray(item.payload) ? item.payload : [item.payload];
-        Promise.resolve(fabric.util.enlivenObjects(descriptors))
+        resolveAssetRefs(descriptors)
+            .then((resolved) => fabric.util.enlivenObjects(resolved))
             .then((objs) => addAndCenter(objs as any))
             .catch((err: unknown) => {
                 console.warn("Failed to insert gallery resource", { err, item });
@@ -66,7 +77,7 @@ export const Toolbar = () => {
     }, [gallery]);
 
     return (
-        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50">
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex flex-col items-center">
             <TooltipProvider disableHoverableContent>
                 <ToggleGroup type="single" value={tool} onValueChange={handleChange} className="bg-popover/90 backdrop-blur-md border rounded-lg shadow-lg p-1 flex items-stretch">
                     {tools.map(t => {
@@ -168,6 +179,8 @@ export const Toolbar = () => {
                     </DropdownMenu>
                 </ToggleGroup>
             </TooltipProvider>
+            {tool === 'draw' && <DrawOptions />}
+            <PathEditBar />
         </div>
     );
 };
@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import * as fabric from 'fabric';
+import { Bookmark, Clock, CopyPlus, Loader2, RotateCcw } from 'lucide-react';
+import { useMainStore } from '@/store/mainStore';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+const getCanvas = () => (typeof window !== 'undefined' ? window.fabricCanvas as fabric.Canvas | undefined : undefined);
+
+/**
+ * Version history of the active document: preview restore points, restore in place or fork into a new document.
+ */
+export const VersionHistoryDialog = ({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void; }) => {
+    const versions = useMainStore(s => s.versions);
+    const name = useMainStore(s => s.documentName);
+    const loadVersions = useMainStore(s => s.loadVersions);
+    const createVersion = useMainStore(s => s.createVersion);
+    const restoreVersion = useMainStore(s => s.restoreVersion);
+    const forkVersion = useMainStore(s => s.forkVersion);
+
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [versionName, setVersionName] = useState('');
+    const [busy, setBusy] = useState<'save' | 'restore' | 'fork' | null>(null);
+
+    useEffect(() => { if (open) { loadVersions(); setSelectedId(null); } }, [open, loadVersions]);
+
+    const selected = versions.find(v => v.id === selectedId) ?? versions[0] ?? null;
+
+    const run = async (kind: NonNullable<typeof busy>, fn: () => Promise<void>) => {
+        setBusy(kind);
+        try { await fn(); } finally { setBusy(null); }
+    };
+    const handleSave = () => run('save', async () => { await createVersion(getCanvas(), versionName); setVersionName(''); });
+    const handleRestore = () => {
+        const canvas = getCanvas(); if (!selected || !canvas) return;
+        run('restore', async () => { await restoreVersion(selected.id, canvas); onOpenChange(false); });
+    };
+    const handleFork = () => {
+        const canvas = getCanvas(); if (!selected || !canvas) return;
+        run('fork', async () => { await forkVersion(selected.id, canvas); onOpenChange(false); });
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>History</DialogTitle>
+                    <DialogDescription>Restore points of “{name}”. Autosaves are captured every few minutes while you edit.</DialogDescription>
+                </DialogHeader>
+                <form className="flex items-center gap-2" onSubmit={(e) => { e.preventDefault(); handleSave(); }}>
+                    <Input placeholder="Name this version (optional)" value={versionName} onChange={e => setVersionName(e.target.value)} className="h-8" />
+                    <Button type="submit" variant="outline" size="sm" className="h-8 gap-1" disabled={busy !== null}>
+                        {busy === 'save' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Bookmark className="h-4 w-4" />} Save version
+                    </Button>
+                </form>
+                <div className="grid grid-cols-1 sm:grid-cols-[1fr_220px] gap-3">
+                    <div className="border rounded-md divide-y max-h-80 overflow-y-auto">
+                        {versions.map(v => (
+                            <button
+                                key={v.id}
+                                type="button"
+                                onClick={() => setSelectedId(v.id)}
+                                className={cn('flex w-full items-center gap-2 px-3 py-2 text-left text-sm', selected?.id === v.id && 'bg-accent/40')}
+                            >
+                                {v.kind === 'manual' ? <Bookmark className="h-3.5 w-3.5 text-primary" /> : <Clock className="h-3.5 w-3.5 text-muted-foreground" />}
+                                <div className="flex-1 min-w-0">
+                                    <div className="truncate font-medium text-xs leading-tight">{v.name || (v.kind === 'manual' ? 'Restore point' : 'Autosave')}</div>
+                                    <div className="text-[10px] text-muted-foreground">{new Date(v.createdAt).toLocaleString()}</div>
+                                </div>
+                            </button>
+                        ))}
+                        {versions.length === 0 && <div className="py-10 text-center text-xs text-muted-foreground">No versions yet</div>}
+                    </div>
+                    <div className="flex flex-col gap-2">
+                        <div className="aspect-square w-full rounded-md border bg-muted/30 flex items-center justify-center overflow-hidden">
+                            {selected?.preview
+                                ? <img src={selected.preview} alt="Version preview" className="object-contain w-full h-full" draggable={false} />
+                                : <span className="text-[11px] text-muted-foreground">{selected ? 'Empty canvas' : 'No preview'}</span>}
+                        </div>
+                        <Button size="sm" className="h-8 gap-1" disabled={!selected || busy !== null} onClick={handleRestore}>
+                            {busy === 'restore' ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />} Restore
+                        </Button>
+                        <Button variant="secondary" size="sm" className="h-8 gap-1" disabled={!selected || busy !== null} onClick={handleFork}>
+                            {busy === 'fork' ? <Loader2 className="h-4 w-4 animate-spin" /> : <CopyPlus className="h-4 w-4" />} Open as copy
+                        </Button>
+                    </div>
+                </div>
+                <DialogFooter className="mt-2 flex justify-end">
+                    <Button variant="secondary" onClick={() => onOpenChange(false)}>Close</Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default VersionHistoryDialog;
@@ -4,12 +4,19 @@ import { useEffect, useRef, useCallback } from "react";
 import * as fabric from "fabric";
 import { addImageBlob, addSVGString, copyToSystemClipboard, tryReadFromSystemClipboard } from "@/lib/fabric/clipboard";
 import { centerObjectAt, getCanvasCenterWorld } from "@/lib/fabric/utils";
+import { configureBrush } from "@/lib/fabric/drawing";
+import { PenSession } from "@/lib/fabric/pen";
+import { attachedConnectors, Connector, ConnectorSession, rebindPastedObjects, rerouteConnectors } from "@/lib/fabric/connectors";
+import { bakeFrameScale, childrenOfFrames, installFrameClipping, isFrame, recordAddFrame } from "@/lib/fabric/frames";
+import { getPathEditor, PATH_EDIT_ACTION, startPathEditing, stopPathEditing } from "@/lib/fabric/pathEditing";
 import { ShapeKind, insertShape, ShapeCreateContext, updateDraggingShape, finalizeDraggingShape } from "@/lib/fabric/shapes";
 import { classifyClipboardObject, FabricClipboardEntry } from "@/lib/fabric/types";
 import { toast } from "sonner";
 import { useMainStore } from "@/store/mainStore";
 import { CanvasTool } from "@/types/canvas";
 import { commandManager, recordAddObjects, recordRemoveObjects, recordModify, snapshotObjects } from '@/lib/history/commandManager';
+import { garbageCollectAssets } from '@/lib/assets';
+import { subscribeSync } from '@/lib/sync';
 
 export interface FabricCanvasHook {
     canvasRef: React.RefObject<HTMLCanvasElement>;
@@ -55,10 +62,26 @@ export const useFabricCanvas = (): FabricCanvasHook => {
     const markDirty = useMainStore(s => s.markDirty);
     const saveDocument = useMainStore(s => s.saveDocument);
     const loadDocuments = useMainStore(s => s.loadDocuments);
+    const loadGallery = useMainStore(s => s.loadGallery);
+    const saveViewState = useMainStore(s => s.saveViewState);
     const createDocument = useMainStore(s => s.createDocument);
     const documentId = useMainStore(s => s.documentId);
+    const drawSettings = useMainStore(s => s.drawSettings);
     const toolRef = useRef<CanvasTool>(tool);
-    useEffect(() => { toolRef.current = tool; }, [tool]);
+    // Pen tool path under construction (only while the pen tool is active)
+    const penRef = useRef<PenSession | null>(null);
+    // Connector tool drag state (only while the connector tool is active)
+    const connectorRef = useRef<ConnectorSession | null>(null);
+    // Viewport / tool persistence is debounced separately from content autosave (view changes never dirty the doc)
+    const viewSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const scheduleViewSave = useCallback(() => {
+        if (viewSaveTimerRef.current) clearTimeout(viewSaveTimerRef.current);
+        viewSaveTimerRef.current = setTimeout(() => {
+            const canvas = fabricCanvasRef.current;
+            if (canvas) saveViewState(canvas).catch(e => console.warn('Failed to persist view state', e));
+        }, 500);
+    }, [saveViewState]);
+    useEffect(() => { toolRef.current = tool; scheduleViewSave(); }, [tool, scheduleViewSave]);
 
     const notify = useCallback((msg: string) => {
         // Normalize message classification
@@ -94,7 +117,8 @@ export const useFabricCanvas = (): FabricCanvasHook => {
         const canvas = fabricCanvasRef.current; if (!canvas) return;
         const activeObject = canvas.getActiveObject();
         if (!activeObject) return;
-        const cloned = await activeObject.clone();
+        // Ids kept so pasting can rebind copied connectors to the copies of their objects
+        const cloned = await activeObject.clone(['qcId']);
         clipboardRef.current = classifyClipboardObject(cloned);
         await copyToSystemClipboard(activeObject, notify);
         setSelectionFromCanvas(canvas);
@@ -104,7 +128,8 @@ export const useFabricCanvas = (): FabricCanvasHook => {
         const canvas = fabricCanvasRef.current; if (!canvas) return;
         const activeObject = canvas.getActiveObject();
         if (!activeObject) return;
-        const cloned = await activeObject.clone();
+        // Ids kept so pasting can rebind copied connectors to the copies of their objects
+        const cloned = await activeObject.clone(['qcId']);
         clipboardRef.current = classifyClipboardObject(cloned);
         await copyToSystemClipboard(activeObject, notify);
         if (activeObject.isType?.('activeselection')) {
@@ -128,7 +153,7 @@ export const useFabricCanvas = (): FabricCanvasHook => {
         if (didSystem) return;
         const entry = clipboardRef.current;
         if (!entry) return;
-        const clonedObj = await entry.clone.clone();
+        const clonedObj = await entry.clone.clone(['qcId']);
         canvas.discardActiveObject();
         if (entry.kind === "selection" && clonedObj.isType?.('activeselection')) {
             const activeSel = clonedObj as fabric.ActiveSelection;
@@ -138,6 +163,7 @@ export const useFabricCanvas = (): FabricCanvasHook => {
                 obj.set({ evented: true });
                 canvas.add(obj); pasted.push(obj);
             });
+            rebindPastedObjects(pasted);
             const selection = new fabric.ActiveSelection(pasted, { canvas });
             centerObjectAt(selection, targetPoint); // still respect pointer if available
             canvas.setActiveObject(selection);
@@ -145,6 +171,7 @@ export const useFabricCanvas = (): FabricCanvasHook => {
             recordAddObjects(canvas, pasted, 'Paste selection');
         } else if (entry.kind === "image" || entry.kind === "object") {
             clonedObj.set({ evented: true });
+            rebindPastedObjects([clonedObj]);
             centerObjectAt(clonedObj, targetPoint);
             canvas.add(clonedObj);
             canvas.setActiveObject(clonedObj);
@@ -171,6 +198,27 @@ export const useFabricCanvas = (): FabricCanvasHook => {
         creationEnvRef.current = null;
         creationRef.current = null;
     };
+    // Add a finished pen path (select it; `switchTool` = back to the pointer like other creation tools)
+    const commitPenPath = useCallback((path: fabric.Path, switchTool = true) => {
+        const canvas = fabricCanvasRef.current; if (!canvas) return;
+        canvas.add(path);
+        canvas.setActiveObject(path);
+        canvas.requestRenderAll();
+        recordAddObjects(canvas, path, 'Add path');
+        if (switchTool) setTool('pointer');
+        setSelectionFromCanvas(canvas);
+    }, [setTool, setSelectionFromCanvas]);
+    const finishPenPath = () => { const path = penRef.current?.finish(); if (path) commitPenPath(path); };
+    const commitConnector = (connector: Connector) => {
+        const canvas = fabricCanvasRef.current; if (!canvas) return;
+        canvas.add(connector);
+        connector.route();
+        canvas.setActiveObject(connector);
+        canvas.requestRenderAll();
+        recordAddObjects(canvas, connector, 'Add connector');
+        setTool('pointer');
+        setSelectionFromCanvas(canvas);
+    };
     const beginCreation = (kind: ShapeKind, origin: fabric.Point) => {
         const canvas = fabricCanvasRef.current; if (!canvas) return;
         creationRef.current = { kind, origin, object: null, started: false };
@@ -193,7 +241,8 @@ export const useFabricCanvas = (): FabricCanvasHook => {
             created = insertShape(canvas, ctx.kind, { at: ctx.origin, autoSelect: true });
         }
         if (created) {
-            recordAddObjects(canvas, created, `Add ${ctx.kind}`);
+            if (isFrame(created)) recordAddFrame(canvas, created);
+            else recordAddObjects(canvas, created, `Add ${ctx.kind}`);
         }
         if (creationEnvRef.current) {
             canvas.selection = creationEnvRef.current.prevSelection;
@@ -225,6 +274,7 @@ export const useFabricCanvas = (): FabricCanvasHook => {
         });
         fabricCanvasRef.current = canvas;
         window.fabricCanvas = canvas;
+        installFrameClipping(canvas);
         canvas.isDragging = false; canvas.lastPosX = 0; canvas.lastPosY = 0;
         // Prevent default touch actions (scroll/zoom) so we can fully control gestures
         try { canvas.upperCanvasEl.style.touchAction = 'none'; } catch { }
@@ -238,6 +288,17 @@ export const useFabricCanvas = (): FabricCanvasHook => {
             const canvas = fabricCanvasRef.current;
             const active = canvas?.getActiveObject() as any;
             const editingText = !!active && active.type === 'i-text' && active.isEditing;
+            const pen = penRef.current;
+            if (pen && !pen.empty && (key === 'enter' || key === 'backspace' || key === 'delete')) {
+                e.preventDefault();
+                if (key === 'enter') finishPenPath(); else pen.undoLastNode();
+                return;
+            }
+            const pathEditor = getPathEditor();
+            if (pathEditor && !e.metaKey && !e.ctrlKey) {
+                if (key === 'escape' || key === 'enter') { e.preventDefault(); stopPathEditing(); return; }
+                if (key === 'delete' || key === 'backspace') { e.preventDefault(); pathEditor.deleteSelection(); return; }
+            }
             if (editingText) {
                 // While editing text, only handle Escape (exit) – let browser handle copy/cut/paste & character input.
                 if (key === 'escape') {
@@ -252,14 +313,21 @@ export const useFabricCanvas = (): FabricCanvasHook => {
                 else if (key === "r") { setTool("rect"); }
                 else if (key === "e") { setTool("ellipse"); }
                 else if (key === "l") { setTool("line"); }
+                else if (key === "a") { setTool("arrow"); }
+                else if (key === "g") { setTool("polygon"); }
+                else if (key === "s") { setTool("star"); }
+                else if (key === "d") { setTool("draw"); }
+                else if (key === "p") { setTool("pen"); }
+                else if (key === "c") { setTool("connector"); }
+                else if (key === "f") { setTool("frame"); }
                 else if (key === "t") { setTool("text"); }
             }
             const meta = e.ctrlKey || e.metaKey; if (!meta) return;
             if (key === "c") { e.preventDefault(); copy(); }
             else if (key === "x") { e.preventDefault(); cut(); }
             else if (key === "v") { e.preventDefault(); suppressNextDomPasteRef.current = true; paste(); }
-            else if (key === 'z') { e.preventDefault(); if (e.shiftKey) { commandManager.redo(); } else { commandManager.undo(); } canvas?.requestRenderAll(); setSelectionFromCanvas(canvas!); }
-            else if (key === 'y') { e.preventDefault(); commandManager.redo(); canvas?.requestRenderAll(); setSelectionFromCanvas(canvas!); }
+            else if (key === 'z') { e.preventDefault(); if (e.shiftKey) { commandManager.redo(); } else { commandManager.undo(); } canvas?.requestRenderAll(); setSelectionFromCanvas(canvas!); markDirty(); }
+            else if (key === 'y') { e.preventDefault(); commandManager.redo(); canvas?.requestRenderAll(); setSelectionFromCanvas(canvas!); markDirty(); }
             else if (key === 'a' && canvas) { // Select all
                 e.preventDefault();
                 const objs = canvas.getObjects().filter(o => o.selectable !== false);
@@ -276,7 +344,8 @@ export const useFabricCanvas = (): FabricCanvasHook => {
         window.addEventListener("keydown", handleKeydown);
         const handleKeyup = (e: KeyboardEvent) => {
             // Centralized delete handling via store (supports undo & consistent selection reset)
-            if (e.key === 'Delete' || e.key === 'Backspace') {
+            // Node editing / pen drawing use these keys themselves (see keydown)
+            if ((e.key === 'Delete' || e.key === 'Backspace') && !getPathEditor() && toolRef.current !== 'pen') {
                 const active: any = canvas.getActiveObject();
                 if (active && !(active.type === 'i-text' && active.isEditing)) {
                     // Avoid duplicate recording: call store deleteSelection which internally records
@@ -326,6 +395,7 @@ export const useFabricCanvas = (): FabricCanvasHook => {
             if (!opt.e) return; const delta = (opt.e as WheelEvent).deltaY; let zoom = canvas.getZoom(); zoom *= 0.999 ** delta; zoom = Math.min(20, Math.max(0.01, zoom));
             canvas.zoomToPoint(new fabric.Point((opt.e as WheelEvent).offsetX, (opt.e as WheelEvent).offsetY), zoom);
             opt.e.preventDefault(); opt.e.stopPropagation();
+            scheduleViewSave();
         });
         // Pointer events (not fabric) for robust multi-touch pinch zoom & two-finger pan
         const el = canvas.upperCanvasEl;
@@ -405,6 +475,7 @@ export const useFabricCanvas = (): FabricCanvasHook => {
                     canvas.selection = pinchStateRef.current.prevSelection;
                     canvas.skipTargetFind = pinchStateRef.current.prevSkipTargetFind;
                     canvas.requestRenderAll();
+                    scheduleViewSave();
                 }
             }
         };
@@ -413,19 +484,28 @@ export const useFabricCanvas = (): FabricCanvasHook => {
         el.addEventListener('pointerup', endPointer);
         el.addEventListener('pointercancel', endPointer);
         el.addEventListener('pointerleave', endPointer);
+        // Objects a transform of `target` changes: the object(s) themselves, the children of frames among them and the
+        // connectors attached to any of those
+        const transformSubjects = (target: fabric.Object) => {
+            const objs = target instanceof fabric.ActiveSelection ? target.getObjects() : [target];
+            const moved = [...objs, ...childrenOfFrames(canvas, objs)];
+            return [...moved, ...attachedConnectors(canvas, moved)];
+        };
+        // Children of the frame(s) being dragged, moved along by object:moving. Membership is fixed when the drag starts
+        let frameDrag: { target: fabric.Object; children: fabric.Object[]; left: number; top: number } | null = null;
         canvas.on("mouse:down", (opt) => {
             const e = opt.e as any;
             const pt = canvas.getScenePoint(e); lastPointerRef.current = new fabric.Point(pt.x, pt.y);
+            frameDrag = null;
             // Snapshot object state for potential transform command recording
             if ((opt as any).target) {
                 const tgt = (opt as any).target as any;
-                if (tgt.isType?.('activeselection')) {
-                    const objs: fabric.Object[] = [];
-                    (tgt as fabric.ActiveSelection).forEachObject((o) => objs.push(o));
-                    (tgt as any).__qcBefore = snapshotObjects(objs);
-                } else {
-                    (tgt as any).__qcBefore = snapshotObjects(tgt);
-                }
+                // The same subjects are snapshotted after the transform, so undo covers exactly what it moved
+                tgt.__qcSubjects = transformSubjects(tgt);
+                tgt.__qcBefore = snapshotObjects(tgt.__qcSubjects);
+                const objs = tgt instanceof fabric.ActiveSelection ? tgt.getObjects() : [tgt];
+                const children = childrenOfFrames(canvas, objs);
+                if (children.length) frameDrag = { target: tgt, children, left: tgt.left, top: tgt.top };
             }
             const activeTool = toolRef.current;
             const isMiddle = e && e.button === 1;
@@ -454,26 +534,39 @@ export const useFabricCanvas = (): FabricCanvasHook => {
                     lineHeight: 1.15,
                     splitByGrapheme: true, // better caret positioning for complex scripts
                 });
+                // Recorded when the first edit ends (one 'Add text' step with the typed text); an empty text is dropped
+                // without ever reaching the history
                 canvas.add(textObj);
                 canvas.setActiveObject(textObj);
                 textObj.enterEditing();
                 (textObj as any).hiddenTextarea && (textObj as any).hiddenTextarea.focus();
-                const before = snapshotObjects(textObj);
-                textObj.on('editing:exited', () => {
-                    if (!textObj.text || !textObj.text.trim()) {
+                let inserted = false;
+                let before = snapshotObjects(textObj);
+                textObj.on('editing:exited', async () => {
+                    // Removed while editing (deleted, document switched / reloaded): nothing to record
+                    if (!canvas.getObjects().includes(textObj)) return;
+                    const empty = !textObj.text || !textObj.text.trim();
+                    if (!inserted) {
+                        if (empty) canvas.remove(textObj);
+                        else { inserted = true; await recordAddObjects(canvas, textObj, 'Add text'); }
+                    } else if (empty) {
                         recordRemoveObjects(canvas, textObj, 'Remove empty text');
                     } else {
-                        const after = snapshotObjects(textObj);
-                        recordModify(canvas, before, after, 'Edit text');
+                        recordModify(canvas, before, snapshotObjects(textObj), 'Edit text');
                     }
+                    before = snapshotObjects(textObj);
                     canvas.requestRenderAll();
                     setSelectionFromCanvas(canvas);
                 });
                 canvas.requestRenderAll();
                 setTool('pointer'); // revert to pointer after insertion for fluid workflow
                 setSelectionFromCanvas(canvas);
-                recordAddObjects(canvas, textObj, 'Add text');
-            } else if (activeTool !== 'pointer' && activeTool !== 'pan' && activeTool !== 'text' && e && e.button === 0) {
+            } else if (activeTool === 'pen' && e && e.button === 0) {
+                const closed = penRef.current?.pointerDown(new fabric.Point(pt.x, pt.y));
+                if (closed) commitPenPath(closed);
+            } else if (activeTool === 'connector' && e && e.button === 0) {
+                connectorRef.current?.pointerDown(new fabric.Point(pt.x, pt.y));
+            } else if (activeTool !== 'pointer' && activeTool !== 'pan' && activeTool !== 'text' && activeTool !== 'draw' && e && e.button === 0) {
                 // Initiate shape creation (drag-based)
                 beginCreation(activeTool as ShapeKind, new fabric.Point(lastPointerRef.current!.x, lastPointerRef.current!.y));
                 // Avoid immediate selection flicker
@@ -483,6 +576,8 @@ export const useFabricCanvas = (): FabricCanvasHook => {
         canvas.on("mouse:move", (opt) => {
             const e = opt.e as any;
             if (e) { const pt = canvas.getScenePoint(e); lastPointerRef.current = new fabric.Point(pt.x, pt.y); }
+            if (e && penRef.current && !canvas.isDragging) penRef.current.pointerMove(lastPointerRef.current!);
+            if (e && connectorRef.current && !canvas.isDragging) connectorRef.current.pointerMove(lastPointerRef.current!);
             if (!canvas.isDragging || !e) return;
             const vpt = canvas.viewportTransform; if (vpt && canvas.lastPosX != null && canvas.lastPosY != null) { vpt[4] += e.clientX - canvas.lastPosX; vpt[5] += e.clientY - canvas.lastPosY; canvas.requestRenderAll(); }
             canvas.lastPosX = e.clientX; canvas.lastPosY = e.clientY;
@@ -505,6 +600,7 @@ export const useFabricCanvas = (): FabricCanvasHook => {
                 canvas.selection = true;
                 canvas.setCursor('default');
                 canvas.renderAll();
+                scheduleViewSave();
             }
             // If we just ended a middle-button pan, mark suppression window
             const e = (opt as any)?.e as MouseEvent | undefined;
@@ -516,37 +612,75 @@ export const useFabricCanvas = (): FabricCanvasHook => {
                 finalizeCreation();
                 setSelectionFromCanvas(canvas);
             }
+            penRef.current?.pointerUp();
+            const connector = e && connectorRef.current ? connectorRef.current.pointerUp(canvas.getScenePoint(e)) : null;
+            if (connector) commitConnector(connector);
+        });
+        canvas.on('mouse:dblclick', (opt) => {
+            if (toolRef.current === 'pen') { finishPenPath(); return; }
+            if (toolRef.current !== 'pointer') return;
+            const point = canvas.getScenePoint(opt.e);
+            let target = opt.target;
+            // Pasted multi-path SVGs arrive as a selection: edit the topmost path under the pointer
+            if (target instanceof fabric.ActiveSelection) {
+                target = [...target.getObjects()].reverse().find(o => o instanceof fabric.Path && o.containsPoint(point));
+                if (target) canvas.discardActiveObject();
+            }
+            const editor = getPathEditor();
+            // Double-click on the edited path converts a node / inserts one, on another path switches node editing to it
+            if (editor && target === editor.path) { editor.handleDoubleClick(point); return; }
+            if (target instanceof fabric.Path) { startPathEditing(canvas, target, markDirty); setSelectionFromCanvas(canvas); }
         });
 
         // Bridge fabric selection events -> store
         const pushSelection = () => setSelectionFromCanvas(canvas);
+        // Selecting something else ends node editing
+        const leavePathEditing = () => { const editor = getPathEditor(); if (editor && canvas.getActiveObject() !== editor.path) stopPathEditing(); };
         canvas.on('selection:created', pushSelection);
         canvas.on('selection:updated', pushSelection);
         canvas.on('selection:cleared', pushSelection);
+        canvas.on('selection:updated', leavePathEditing);
+        canvas.on('selection:cleared', leavePathEditing);
+        // Loading or clearing a document (both clear the canvas) ends node editing of a path that is gone
+        canvas.on('canvas:cleared', () => stopPathEditing());
         canvas.on('text:editing:exited', pushSelection as any);
-        // Track transforms -> record modify command
+        // Frame children follow their frame while it is dragged
+        canvas.on('object:moving', ({ target }) => {
+            if (!frameDrag || target !== frameDrag.target) return;
+            const dx = target.left - frameDrag.left, dy = target.top - frameDrag.top;
+            frameDrag.left = target.left; frameDrag.top = target.top;
+            frameDrag.children.forEach(c => { c.set({ left: c.left + dx, top: c.top + dy }); c.setCoords(); });
+            attachedConnectors(canvas, frameDrag.children).forEach(c => c.route());
+        });
+        // Connectors follow the objects they are attached to while those are transformed
+        const rerouteAttached = (opt: { target?: fabric.Object }) => { if (opt.target) rerouteConnectors(canvas, opt.target); };
+        canvas.on('object:moving', rerouteAttached);
+        canvas.on('object:scaling', rerouteAttached);
+        canvas.on('object:rotating', rerouteAttached);
+        canvas.on('object:skewing', rerouteAttached);
+        // Track transforms -> record modify command (attached connectors are part of the same step)
         canvas.on('object:modified', (opt: any) => {
-            const target = opt.target as fabric.Object & { __qcBefore?: any[] } | null; if (!target) return;
+            const target = opt.target as fabric.Object & { __qcBefore?: any[]; __qcSubjects?: fabric.Object[] } | null; if (!target) return;
+            bakeFrameScale(target);
+            rerouteConnectors(canvas, target);
+            frameDrag = null;
             const before = target.__qcBefore;
             if (!before) return;
-            let after: any[];
-            if (target.isType?.('activeselection')) {
-                const objs: fabric.Object[] = [];
-                (target as fabric.ActiveSelection).forEachObject((o) => objs.push(o));
-                after = snapshotObjects(objs);
-            } else {
-                after = snapshotObjects(target);
-            }
-            recordModify(canvas, before, after, 'Transform');
+            const after = snapshotObjects(target.__qcSubjects ?? transformSubjects(target));
+            recordModify(canvas, before, after, opt.action === PATH_EDIT_ACTION ? 'Edit path' : 'Transform');
             markDirty();
             delete target.__qcBefore;
+            delete target.__qcSubjects;
         });
+        // Freehand strokes (draw tool): the brush already added the path
+        canvas.on('path:created', ({ path }) => { recordAddObjects(canvas, path, 'Draw'); });
         const safeMark = () => { if (canvas.__qcLoading) return; markDirty(); };
         canvas.on('object:added', safeMark);
         canvas.on('object:removed', safeMark);
         canvas.on('object:skewing', () => markDirty());
         // Initial document bootstrap
         (async () => {
+            loadGallery(); // hydrate persisted gallery + dedupe index in parallel with documents
             await loadDocuments();
             const state = useMainStore.getState();
             if (state.documentId) return; // already set by earlier logic
@@ -559,6 +693,9 @@ export const useFabricCanvas = (): FabricCanvasHook => {
             } else {
                 await createDocument('Untitled');
             }
+            // Purge trashed documents past retention, then drop image assets nothing references anymore
+            await useMainStore.getState().purgeExpiredTrash().catch(e => console.warn('Trash purge failed', e));
+            garbageCollectAssets().catch(e => console.warn('Asset GC failed', e));
         })();
         pushSelection();
 
@@ -574,8 +711,61 @@ export const useFabricCanvas = (): FabricCanvasHook => {
             el.removeEventListener('pointerleave', endPointer);
             canvas.dispose();
             fabricCanvasRef.current = null;
+            if (viewSaveTimerRef.current) clearTimeout(viewSaveTimerRef.current);
+        };
+    }, [copy, cut, paste, getTargetPoint, notify, addToGallery, markDirty, loadDocuments, loadGallery, createDocument, scheduleViewSave]);
+
+    // Pen tool: a session per activation; leaving the tool keeps the path drawn so far
+    useEffect(() => {
+        const canvas = fabricCanvasRef.current; if (!canvas || tool !== 'pen') return;
+        stopPathEditing();
+        const prev = { selection: canvas.selection, skipTargetFind: canvas.skipTargetFind, defaultCursor: canvas.defaultCursor };
+        canvas.selection = false;
+        canvas.skipTargetFind = true;
+        canvas.defaultCursor = 'crosshair';
+        canvas.discardActiveObject();
+        setSelectionFromCanvas(canvas);
+        const session = new PenSession(canvas);
+        penRef.current = session;
+        return () => {
+            const path = session.finish();
+            session.dispose();
+            penRef.current = null;
+            canvas.selection = prev.selection;
+            canvas.skipTargetFind = prev.skipTargetFind;
+            canvas.defaultCursor = prev.defaultCursor;
+            if (path) commitPenPath(path, false);
+        };
+    }, [tool, setSelectionFromCanvas, commitPenPath]);
+    // Connector tool: same canvas setup as the pen (no selection / target finding, crosshair)
+    useEffect(() => {
+        const canvas = fabricCanvasRef.current; if (!canvas || tool !== 'connector') return;
+        const prev = { selection: canvas.selection, skipTargetFind: canvas.skipTargetFind, defaultCursor: canvas.defaultCursor };
+        canvas.selection = false;
+        canvas.skipTargetFind = true;
+        canvas.defaultCursor = 'crosshair';
+        canvas.discardActiveObject();
+        setSelectionFromCanvas(canvas);
+        const session = new ConnectorSession(canvas);
+        connectorRef.current = session;
+        return () => {
+            session.dispose();
+            connectorRef.current = null;
+            canvas.selection = prev.selection;
+            canvas.skipTargetFind = prev.skipTargetFind;
+            canvas.defaultCursor = prev.defaultCursor;
         };
-    }, [copy, cut, paste, getTargetPoint, notify, addToGallery, markDirty, loadDocuments, createDocument]);
+    }, [tool, setSelectionFromCanvas]);
+    // Node editing only lives under the pointer tool
+    useEffect(() => { if (tool !== 'pointer') stopPathEditing(); }, [tool]);
+
+    // Draw tool = fabric drawing mode with the configured brush
+    useEffect(() => {
+        const canvas = fabricCanvasRef.current; if (!canvas) return;
+        canvas.isDrawingMode = tool === 'draw';
+        if (tool === 'draw') { configureBrush(canvas, drawSettings); canvas.discardActiveObject(); setSelectionFromCanvas(canvas); }
+        canvas.requestRenderAll();
+    }, [tool, drawSettings, setSelectionFromCanvas]);
 
     // Autosave loop (debounced behavior): save 1s after last dirty mark
     useEffect(() => {
@@ -592,5 +782,30 @@ export const useFabricCanvas = (): FabricCanvasHook => {
         return () => { clearTimeout(timer); unsub(); };
     }, [documentId, saveDocument]);
 
+    // Cross-tab sync: refresh the list on any remote change; follow remote saves of the active document
+    // when clean, flag a conflict when this tab has unsaved edits
+    useEffect(() => {
+        return subscribeSync(async (msg) => {
+            const state = useMainStore.getState();
+            loadDocuments();
+            if (msg.type === 'documents-changed') useMainStore.getState().loadTrash();
+            if (msg.type !== 'document-saved' || msg.documentId !== state.documentId) return;
+            if (msg.contentHash === state.documentHash) return;
+            const canvas = fabricCanvasRef.current; if (!canvas) return;
+            if (state.documentDirty) {
+                state.reportSyncConflict({ documentId: msg.documentId, theirHash: msg.contentHash, theirUpdatedAt: msg.updatedAt });
+                return;
+            }
+            // Keep this tab's view + tool; only the content follows the other tab
+            const vpt = [...canvas.viewportTransform] as fabric.TMat2D;
+            const currentTool = state.tool;
+            await state.loadDocument(msg.documentId, canvas);
+            canvas.setViewportTransform(vpt);
+            useMainStore.getState().setTool(currentTool);
+            canvas.requestRenderAll();
+            toast.info('Document updated from another tab');
+        });
+    }, [loadDocuments]);
+
     return { canvasRef: canvasRef as React.RefObject<HTMLCanvasElement>, copy, cut, paste, getCanvas: () => fabricCanvasRef.current, tool, setTool };
 };
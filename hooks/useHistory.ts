@@ -0,0 +1,42 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import { commandManager, HistorySnapshot } from "@/lib/history/commandManager";
+import { useMainStore } from "@/store/mainStore";
+
+export interface HistoryHook extends HistorySnapshot {
+    canUndo: boolean;
+    canRedo: boolean;
+    undo: () => Promise<void>;
+    redo: () => Promise<void>;
+    jumpTo: (id: string | null) => Promise<void>; // state right after entry `id` (null = initial state)
+}
+
+const EMPTY: HistorySnapshot = { past: [], future: [], tree: [] };
+
+/**
+ * Reactive view of the undo / redo stacks (subscribes to the command manager, no polling).
+ * Actions refresh the canvas + selection snapshot and re-derive dirtiness like the keyboard shortcuts do.
+ */
+export const useHistory = (): HistoryHook => {
+    const snapshot = useSyncExternalStore(commandManager.subscribe, commandManager.getSnapshot, () => EMPTY);
+    const setSelectionFromCanvas = useMainStore(s => s.setSelectionFromCanvas);
+    const markDirty = useMainStore(s => s.markDirty);
+
+    const run = useCallback(async (op: () => Promise<void>) => {
+        await op();
+        const canvas = window.fabricCanvas; if (!canvas) return;
+        canvas.requestRenderAll();
+        setSelectionFromCanvas(canvas);
+        markDirty();
+    }, [setSelectionFromCanvas, markDirty]);
+
+    return {
+        ...snapshot,
+        canUndo: snapshot.past.length > 0,
+        canRedo: snapshot.future.length > 0,
+        undo: useCallback(() => run(() => commandManager.undo()), [run]),
+        redo: useCallback(() => run(() => commandManager.redo()), [run]),
+        jumpTo: useCallback((id: string | null) => run(() => commandManager.jumpTo(id)), [run]),
+    };
+};
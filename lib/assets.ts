@@ -0,0 +1,141 @@
+import { db } from '@/lib/db';
+
+// Content-addressed image store.
+// Persisted JSON (documents, versions, gallery payloads) references images as `qc-asset://<sha256>`;
+// live Fabric images point at session object URLs created from the stored Blob.
+export const ASSET_SCHEME = 'qc-asset://';
+
+export const isAssetRef = (src: unknown): src is string => typeof src === 'string' && src.startsWith(ASSET_SCHEME);
+export const assetRef = (hash: string) => `${ASSET_SCHEME}${hash}`;
+const hashFromRef = (ref: string) => ref.slice(ASSET_SCHEME.length);
+
+// 1x1 transparent png used when a referenced asset is missing (keeps the rest of the document loadable)
+const MISSING_ASSET_SRC = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR4nGMAAQAABQABDQottAAAAABJRU5ErkJggg==';
+
+// Session object URL cache (both directions so serialized JSON can be mapped back to refs)
+const urlByHash = new Map<string, string>();
+const hashByUrl = new Map<string, string>();
+
+const toHex = (buf: ArrayBuffer) => Array.from(new Uint8Array(buf), b => b.toString(16).padStart(2, '0')).join('');
+
+const hashBlob = async (blob: Blob): Promise<string> => {
+    const bytes = await blob.arrayBuffer();
+    if (typeof crypto !== 'undefined' && crypto.subtle) return toHex(await crypto.subtle.digest('SHA-256', bytes));
+    // Insecure context fallback (no SubtleCrypto): 64-bit FNV-1a, still content addressed
+    let h1 = 0x811c9dc5, h2 = 0xcbf29ce4;
+    new Uint8Array(bytes).forEach((b, i) => {
+        h1 = Math.imul(h1 ^ b, 0x01000193) >>> 0;
+        h2 = Math.imul(h2 ^ b ^ (i & 0xff), 0x01000193) >>> 0;
+    });
+    return `fnv-${h1.toString(16).padStart(8, '0')}${h2.toString(16).padStart(8, '0')}-${bytes.byteLength}`;
+};
+
+const registerObjectURL = (hash: string, blob: Blob): string => {
+    let url = urlByHash.get(hash);
+    if (!url) {
+        url = URL.createObjectURL(blob);
+        urlByHash.set(hash, url);
+        hashByUrl.set(url, hash);
+    }
+    return url;
+};
+
+/** Store a blob (deduped by content hash) and return an object URL usable as a Fabric image source. */
+export const storeAssetBlob = async (blob: Blob): Promise<{ hash: string; url: string }> => {
+    const hash = await hashBlob(blob);
+    if (!(await db.assets.get(hash))) {
+        await db.assets.put({ hash, blob, type: blob.type, size: blob.size, createdAt: Date.now() });
+    }
+    return { hash, url: registerObjectURL(hash, blob) };
+};
+
+export const getAssetBlob = async (hash: string): Promise<Blob | undefined> => (await db.assets.get(hash))?.blob;
+
+// Resolve a single `qc-asset://` ref to a session object URL (null when the asset is gone)
+export const resolveAssetURL = async (ref: string): Promise<string | null> => {
+    const hash = hashFromRef(ref);
+    const cached = urlByHash.get(hash); if (cached) return cached;
+    const blob = await getAssetBlob(hash);
+    return blob ? registerObjectURL(hash, blob) : null;
+};
+
+// Deep-map every string `src` property of a JSON tree (Fabric object JSON nests via `objects`, `clipPath`, ...)
+const mapSources = async <T>(value: T, fn: (src: string) => Promise<string>): Promise<T> => {
+    if (Array.isArray(value)) return Promise.all(value.map(v => mapSources(v, fn))) as Promise<T>;
+    if (!value || typeof value !== 'object') return value;
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+        out[k] = k === 'src' && typeof v === 'string' ? await fn(v) : await mapSources(v, fn);
+    }
+    return out as T;
+};
+
+/** Replace `qc-asset://` refs with object URLs so Fabric can enliven the JSON. */
+export const resolveAssetRefs = <T>(json: T): Promise<T> => mapSources(json, async (src) => {
+    if (!isAssetRef(src)) return src;
+    const url = await resolveAssetURL(src);
+    if (!url) console.warn('Missing asset', src);
+    return url ?? MISSING_ASSET_SRC;
+});
+
+/**
+ * Replace image sources with `qc-asset://` refs for persistence: session object URLs map back to their hash,
+ * inline data URLs (legacy documents, imported files) are moved into the asset store on the way.
+ */
+export const toAssetRefs = <T>(json: T): Promise<T> => mapSources(json, async (src) => {
+    const known = hashByUrl.get(src);
+    if (known) return assetRef(known);
+    if (src.startsWith('data:image/')) {
+        try {
+            const { hash } = await storeAssetBlob(await (await fetch(src)).blob());
+            return assetRef(hash);
+        } catch (e) { console.warn('Failed to move inline image into asset store', e); }
+    }
+    return src;
+});
+
+const blobToDataURL = (b: Blob) => new Promise<string>((res, rej) => {
+    const r = new FileReader();
+    r.onerror = () => rej(r.error);
+    r.onload = () => res(r.result as string);
+    r.readAsDataURL(b);
+});
+
+/** Inline session object URLs found in markup (e.g. exported SVG) as data URLs so it works outside this tab. */
+export const inlineObjectURLs = async (markup: string): Promise<string> => {
+    let out = markup;
+    for (const [url, hash] of hashByUrl) {
+        if (!out.includes(url)) continue;
+        const blob = await getAssetBlob(hash); if (!blob) continue;
+        out = out.split(url).join(await blobToDataURL(blob));
+    }
+    return out;
+};
+
+export const collectAssetRefs = (value: unknown, into: Set<string> = new Set()): Set<string> => {
+    if (Array.isArray(value)) value.forEach(v => collectAssetRefs(v, into));
+    else if (value && typeof value === 'object') {
+        Object.entries(value).forEach(([k, v]) => {
+            if (k === 'src' && isAssetRef(v)) into.add(hashFromRef(v)); else collectAssetRefs(v, into);
+        });
+    }
+    return into;
+};
+
+/**
+ * Delete assets no longer referenced by any document, version, gallery item, recovery journal, undo history or macro.
+ * Assets younger than `graceMs` survive: they may belong to edits not yet autosaved.
+ */
+export const garbageCollectAssets = async (opts?: { graceMs?: number }): Promise<number> => {
+    const cutoff = Date.now() - (opts?.graceMs ?? 60 * 60 * 1000);
+    const referenced = new Set<string>();
+    await db.documents.each(d => { collectAssetRefs(d.data, referenced); });
+    await db.documentVersions.each(v => { collectAssetRefs(v.data, referenced); });
+    await db.gallery.each(g => { collectAssetRefs(g.payload, referenced); });
+    await db.journal.each(j => { collectAssetRefs(j.upserts, referenced); });
+    await db.histories.each(h => { collectAssetRefs([h.past, h.future], referenced); });
+    await db.macros.each(m => { collectAssetRefs(m.steps, referenced); });
+    const stale = (await db.assets.where('createdAt').below(cutoff).primaryKeys()).filter(h => !referenced.has(h));
+    if (stale.length) await db.assets.bulkDelete(stale);
+    return stale.length;
+};
@@ -0,0 +1,129 @@
+import { db, generateId, AssetRecord, DocumentRecord } from '@/lib/db';
+import { computeContentHash } from '@/lib/contentHash';
+import type { GalleryItem } from '@/store/mainStore';
+
+// Whole-workspace archive: every document + gallery item (plus the image assets they reference) in one JSON file.
+const BACKUP_FORMAT = 'quickcanvas-workspace';
+// v2: image assets embedded as data URLs (documents reference them via qc-asset:// refs)
+export const BACKUP_SCHEMA_VERSION = 2;
+export const BACKUP_MIME = 'application/json';
+
+export interface WorkspaceBackup {
+    format: typeof BACKUP_FORMAT;
+    schemaVersion: number;
+    exportedAt: number;
+    documents: DocumentRecord[];
+    gallery: GalleryItem[];
+    assets: { hash: string; type: string; data: string }[]; // data = data URL of the raw bytes
+}
+
+/**
+ * merge   – same id: keep whichever copy was updated last
+ * replace – same id: the backup copy always wins
+ * In both modes identical content (contentHash / gallery checksum) is skipped rather than duplicated.
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreReport {
+    added: number;
+    skipped: number;
+    overwritten: number;
+    overwrittenIds: string[];
+    galleryAdded: number;
+    gallerySkipped: number;
+}
+
+const blobToDataURL = (b: Blob) => new Promise<string>((res, rej) => {
+    const r = new FileReader();
+    r.onerror = () => rej(r.error);
+    r.onload = () => res(r.result as string);
+    r.readAsDataURL(b);
+});
+
+export const createWorkspaceBackup = async (): Promise<Blob> => {
+    // Trashed documents are left out: a restored backup should not resurrect them
+    const [documents, gallery, assetRows] = await Promise.all([db.documents.filter(d => !d.deletedAt).toArray(), db.gallery.toArray(), db.assets.toArray()]);
+    const assets = await Promise.all(assetRows.map(async a => ({ hash: a.hash, type: a.type, data: await blobToDataURL(a.blob) })));
+    const backup: WorkspaceBackup = { format: BACKUP_FORMAT, schemaVersion: BACKUP_SCHEMA_VERSION, exportedAt: Date.now(), documents, gallery, assets };
+    return new Blob([JSON.stringify(backup)], { type: BACKUP_MIME });
+};
+
+export const backupFileName = (at = new Date()) => `quickcanvas-backup-${at.toISOString().slice(0, 10)}.json`;
+
+const isDocumentRecord = (d: any): d is DocumentRecord =>
+    !!d && typeof d === 'object' && typeof d.id === 'string' && typeof d.name === 'string' && !!d.data && Array.isArray(d.data.objects);
+const isGalleryItem = (g: any): g is GalleryItem =>
+    !!g && typeof g === 'object' && typeof g.id === 'string' && typeof g.preview === 'string' && g.payload != null;
+
+/** Parse + validate a backup archive; throws an Error with a user facing message. */
+export const parseWorkspaceBackup = (text: string): WorkspaceBackup => {
+    let raw: any;
+    try { raw = JSON.parse(text); } catch { throw new Error('Backup is corrupt (not valid JSON)'); }
+    if (!raw || typeof raw !== 'object' || raw.format !== BACKUP_FORMAT) throw new Error('Not a QuickCanvas workspace backup');
+    if (typeof raw.schemaVersion !== 'number' || raw.schemaVersion > BACKUP_SCHEMA_VERSION) throw new Error('Backup was created by a newer version of QuickCanvas');
+    if (!Array.isArray(raw.documents) || !Array.isArray(raw.gallery ?? [])) throw new Error('Backup is corrupt (missing documents)');
+    return {
+        format: BACKUP_FORMAT,
+        schemaVersion: raw.schemaVersion,
+        exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : Date.now(),
+        documents: raw.documents.filter(isDocumentRecord),
+        gallery: (raw.gallery ?? []).filter(isGalleryItem),
+        assets: Array.isArray(raw.assets) ? raw.assets.filter((a: any) => a && typeof a.hash === 'string' && typeof a.data === 'string') : [],
+    };
+};
+
+export const restoreWorkspaceBackup = async (backup: WorkspaceBackup, mode: RestoreMode): Promise<RestoreReport> => {
+    const report: RestoreReport = { added: 0, skipped: 0, overwritten: 0, overwrittenIds: [], galleryAdded: 0, gallerySkipped: 0 };
+    // Hashes are computed up front: IndexedDB transactions auto-commit across non-Dexie awaits.
+    // Always recomputed: backups written before the current hash scheme carry hashes that never match stored ones.
+    const incoming = await Promise.all(backup.documents.map(async d => ({
+        ...d,
+        contentHash: await computeContentHash(d.data.objects),
+    })));
+    const assets: AssetRecord[] = [];
+    for (const a of backup.assets) {
+        try {
+            const blob = await (await fetch(a.data)).blob();
+            assets.push({ hash: a.hash, blob, type: a.type || blob.type, size: blob.size, createdAt: Date.now() });
+        } catch (e) { console.warn('Skipping unreadable asset in backup', a.hash, e); }
+    }
+    await db.transaction('rw', db.documents, db.gallery, db.assets, async () => {
+        // Assets are content addressed: only missing hashes need writing
+        const present = new Set(await db.assets.where('hash').anyOf(assets.map(a => a.hash)).primaryKeys());
+        await db.assets.bulkPut(assets.filter(a => !present.has(a.hash)));
+        const existing = new Map((await db.documents.toArray()).map(d => [d.id, d]));
+        // Non-empty content already present under another id counts as a duplicate
+        const contentHashes = new Set([...existing.values()].filter(d => d.data?.objects?.length).map(d => d.contentHash));
+        for (const doc of incoming) {
+            const current = existing.get(doc.id);
+            if (current) {
+                const incomingWins = mode === 'replace' || doc.updatedAt > current.updatedAt;
+                if (current.contentHash === doc.contentHash || !incomingWins) { report.skipped++; continue; }
+                await db.documents.put(doc);
+                report.overwritten++; report.overwrittenIds.push(doc.id);
+            } else if (doc.data.objects.length && contentHashes.has(doc.contentHash)) {
+                report.skipped++;
+            } else {
+                await db.documents.put(doc);
+                contentHashes.add(doc.contentHash);
+                report.added++;
+            }
+        }
+        const existingGallery = await db.gallery.toArray();
+        const ids = new Set(existingGallery.map(g => g.id));
+        const checksums = new Set(existingGallery.map(g => g.checksum).filter(Boolean));
+        for (const item of backup.gallery) {
+            if (item.checksum && checksums.has(item.checksum)) { report.gallerySkipped++; continue; }
+            await db.gallery.put(ids.has(item.id) ? { ...item, id: generateId() } : item);
+            if (item.checksum) checksums.add(item.checksum);
+            report.galleryAdded++;
+        }
+    });
+    return report;
+};
+
+export const describeRestoreReport = (r: RestoreReport) => {
+    const parts = [`${r.added} added`, `${r.overwritten} overwritten`, `${r.skipped} skipped`];
+    const gallery = r.galleryAdded || r.gallerySkipped ? ` · gallery: ${r.galleryAdded} added, ${r.gallerySkipped} skipped` : '';
+    return `Documents: ${parts.join(', ')}${gallery}`;
+};
@@ -0,0 +1,31 @@
+import * as fabric from 'fabric';
+import { stableHash, withoutObjectIds } from '@/lib/utils';
+import { toAssetRefs } from '@/lib/assets';
+import { serializeCanvasObjects } from '@/lib/journal';
+
+// Document contentHash = stable hash over the per-object hashes (in z-order).
+// Per-object hashes cover the content only (no qcId) and are memoized by serialized JSON, so re-hashing after an edit
+// only hashes the objects that changed.
+const objectHashes = new Map<string, string>();
+const CACHE_LIMIT = 2000;
+
+const hashObject = async (obj: unknown): Promise<string> => {
+    const content = withoutObjectIds(obj);
+    const key = JSON.stringify(content);
+    let h = objectHashes.get(key);
+    if (!h) {
+        h = await stableHash(content);
+        if (objectHashes.size >= CACHE_LIMIT) objectHashes.clear();
+        objectHashes.set(key, h);
+    }
+    return h;
+};
+
+/** Content hash of persisted object JSON (image sources as qc-asset:// refs). */
+export const computeContentHash = async (objects: unknown[] = []): Promise<string> => {
+    try { return await stableHash(await Promise.all(objects.map(hashObject))); } catch { return Math.random().toString(36).slice(2); }
+};
+
+/** Content hash of the live canvas, identical to what saving it would store. */
+export const computeCanvasContentHash = async (canvas: fabric.Canvas): Promise<string> =>
+    computeContentHash(await toAssetRefs(serializeCanvasObjects(canvas)));
@@ -1,13 +1,21 @@
 import { Dexie, Table } from 'dexie';
-import { stableHash } from '@/lib/utils';
+import { hash as ohash } from 'ohash';
+import { stableHash, withoutObjectIds } from '@/lib/utils';
+import type { GalleryItem } from '@/store/mainStore';
+import type { CanvasTool } from '@/types/canvas';
+import type { SerializedCommand } from '@/lib/history/commandManager';
+import type { MacroStep } from '@/lib/history/macros';
 
 export interface DocumentRecord {
     id: string;               // uuid
     name: string;             // user supplied title
     createdAt: number;        // epoch ms
     updatedAt: number;        // epoch ms (content or name change)
-    // Fabric JSON snapshot (canvas.toJSON). We purposely exclude viewport state for now (future opt-in)
+    // Fabric JSON snapshot (canvas.toJSON). Viewport lives in `viewport` so pan/zoom never affects contentHash
     data: any;                // structured clone safe JSON
+    // Last viewport transform [scaleX, skewY, skewX, scaleY, translateX, translateY] & active tool (view state, not content)
+    viewport?: number[];
+    tool?: CanvasTool;
     // Lightweight preview PNG (dataURL) for quick switcher; may be regenerated lazily
     preview?: string;         // data:image/png;base64,...
     // Hash of stable structural content (object geometry & styles) for fast change detection
@@ -15,16 +23,154 @@ export interface DocumentRecord {
     // Optional width/height of original canvas to allow aspect aware thumbnail framing on restore
     width?: number;
     height?: number;
+    // Set when moved to the Trash (soft delete); purged for good after the retention period (lib/trash.ts)
+    deletedAt?: number;       // epoch ms
 }
 
+// Point-in-time snapshot of a document (periodic autosave capture or user named restore point)
+export interface DocumentVersionRecord {
+    id: string;               // uuid
+    documentId: string;       // owning DocumentRecord id
+    createdAt: number;        // epoch ms (capture time)
+    kind: 'auto' | 'manual';  // auto = periodic capture on save, manual = named restore point
+    name?: string;            // user supplied label (manual versions)
+    data: any;                // Fabric JSON snapshot (same shape as DocumentRecord.data)
+    preview?: string;         // thumbnail at capture time
+    contentHash: string;      // reused from DocumentRecord to skip identical captures
+}
+
+// Content-addressed binary asset (pasted images). Documents / gallery payloads reference it as `qc-asset://<hash>`
+export interface AssetRecord {
+    hash: string;             // SHA-256 (hex) of the raw bytes
+    blob: Blob;               // raw image bytes
+    type: string;             // mime type
+    size: number;             // bytes
+    createdAt: number;        // epoch ms (GC grace period)
+}
+
+// Unsaved edits since the last save (cumulative delta against the snapshot with `baseHash`), see lib/journal.ts
+export interface JournalRecord {
+    id: string;               // uuid
+    documentId: string;       // owning DocumentRecord id
+    tabId?: string;           // tab that wrote it (lib/sync.ts TAB_ID; missing on entries from older versions)
+    createdAt: number;        // epoch ms (flush time)
+    baseHash: string;         // contentHash of the persisted snapshot the delta applies to
+    upserts: any[];           // Fabric object JSON (with qcId) of added / changed objects
+    removed: string[];        // qcIds deleted since the snapshot
+    order: string[];          // full z-order (qcIds) at flush time
+}
+
+// Undo history of a document (active line, capped), restored on load when the content still matches, see lib/history/persistence.ts
+export interface HistoryRecord {
+    documentId: string;       // owning DocumentRecord id (one record per document)
+    baseHash: string;         // contentHash of the saved snapshot the history ends at
+    updatedAt: number;        // epoch ms
+    past: SerializedCommand[];   // undo steps, oldest first
+    future: SerializedCommand[]; // redo steps, next first
+}
+
+// Named, replayable sequence of selection relative edits, see lib/history/macros.ts
+export interface MacroRecord {
+    id: string;               // uuid
+    name: string;             // user supplied name
+    createdAt: number;        // epoch ms
+    steps: MacroStep[];       // image sources stored as qc-asset:// refs
+}
+
+// contentHash scheme of lib/contentHash.ts (hash over the per-object hashes), synchronous for use inside upgrades
+const contentHashOf = (objects: unknown[] = []) => ohash(objects.map(o => ohash(withoutObjectIds(o))));
+
 class QCDB extends Dexie {
     documents!: Table<DocumentRecord, string>;
+    gallery!: Table<GalleryItem, string>;
+    documentVersions!: Table<DocumentVersionRecord, string>;
+    assets!: Table<AssetRecord, string>;
+    journal!: Table<JournalRecord, string>;
+    histories!: Table<HistoryRecord, string>;
+    macros!: Table<MacroRecord, string>;
     constructor() {
         super('quickcanvas');
         (this as any).version(1).stores({
             // by updatedAt desc queries (Dexie supports compound indexes, keep simple now; we can add migrations later)
             documents: 'id, updatedAt, createdAt'
         });
+        // v2: Resources Gallery persisted across reloads (ordered by addedAt, checksum indexed for dedupe lookups)
+        (this as any).version(2).stores({
+            documents: 'id, updatedAt, createdAt',
+            gallery: 'id, addedAt, checksum'
+        });
+        // v3: per-document version history (restore points)
+        (this as any).version(3).stores({
+            documents: 'id, updatedAt, createdAt',
+            gallery: 'id, addedAt, checksum',
+            documentVersions: 'id, documentId, [documentId+createdAt]'
+        });
+        // v4: content-addressed image blobs (replaces inline base64 data URLs in documents / gallery)
+        (this as any).version(4).stores({
+            documents: 'id, updatedAt, createdAt',
+            gallery: 'id, addedAt, checksum',
+            documentVersions: 'id, documentId, [documentId+createdAt]',
+            assets: 'hash, createdAt'
+        });
+        // v5: soft delete (Trash); deletedAt indexed for the Trash view + retention purge
+        (this as any).version(5).stores({
+            documents: 'id, updatedAt, createdAt, deletedAt',
+            gallery: 'id, addedAt, checksum',
+            documentVersions: 'id, documentId, [documentId+createdAt]',
+            assets: 'hash, createdAt'
+        });
+        // v6: crash recovery journal (unsaved edits between autosaves)
+        (this as any).version(6).stores({
+            documents: 'id, updatedAt, createdAt, deletedAt',
+            gallery: 'id, addedAt, checksum',
+            documentVersions: 'id, documentId, [documentId+createdAt]',
+            assets: 'hash, createdAt',
+            journal: 'id, documentId'
+        });
+        // v7: persisted undo history (survives reloads)
+        (this as any).version(7).stores({
+            documents: 'id, updatedAt, createdAt, deletedAt',
+            gallery: 'id, addedAt, checksum',
+            documentVersions: 'id, documentId, [documentId+createdAt]',
+            assets: 'hash, createdAt',
+            journal: 'id, documentId',
+            histories: 'documentId'
+        });
+        // v8: recorded editing macros
+        (this as any).version(8).stores({
+            documents: 'id, updatedAt, createdAt, deletedAt',
+            gallery: 'id, addedAt, checksum',
+            documentVersions: 'id, documentId, [documentId+createdAt]',
+            assets: 'hash, createdAt',
+            journal: 'id, documentId',
+            histories: 'documentId',
+            macros: 'id, createdAt'
+        });
+        // v9: contentHash moved from a hash of `{ objects }` to a hash over per-object hashes. Stored hashes are
+        // recomputed, and journal / undo history bases pointing at a document's old hash follow it
+        (this as any).version(9).stores({
+            documents: 'id, updatedAt, createdAt, deletedAt',
+            gallery: 'id, addedAt, checksum',
+            documentVersions: 'id, documentId, [documentId+createdAt]',
+            assets: 'hash, createdAt',
+            journal: 'id, documentId',
+            histories: 'documentId',
+            macros: 'id, createdAt'
+        }).upgrade(async (tx: any) => {
+            const rehashed = new Map<string, { from: string; to: string }>(); // documentId -> old / new hash
+            await tx.table('documents').toCollection().modify((d: DocumentRecord) => {
+                const to = contentHashOf(d.data?.objects);
+                rehashed.set(d.id, { from: d.contentHash, to });
+                d.contentHash = to;
+            });
+            await tx.table('documentVersions').toCollection().modify((v: DocumentVersionRecord) => { v.contentHash = contentHashOf(v.data?.objects); });
+            const rebase = (r: { documentId: string; baseHash: string }) => {
+                const h = rehashed.get(r.documentId);
+                if (h && r.baseHash === h.from) r.baseHash = h.to;
+            };
+            await tx.table('journal').toCollection().modify(rebase);
+            await tx.table('histories').toCollection().modify(rebase);
+        });
     }
 }
 
@@ -0,0 +1,85 @@
+import { DocumentRecord } from '@/lib/db';
+import { resolveAssetRefs } from '@/lib/assets';
+
+// Portable single-document file (.qcanvas): plain JSON, self-contained (images embedded as data URLs).
+export const QCANVAS_EXTENSION = '.qcanvas';
+export const QCANVAS_MIME = 'application/vnd.quickcanvas+json';
+const QCANVAS_FORMAT = 'quickcanvas-document';
+// Bump when the file layout changes; readers reject files from a newer schema instead of guessing.
+export const QCANVAS_SCHEMA_VERSION = 1;
+
+export interface QCanvasFile {
+    format: typeof QCANVAS_FORMAT;
+    schemaVersion: number;
+    exportedAt: number;
+    name: string;
+    preview?: string;
+    viewport?: number[];
+    data: any; // Fabric JSON (canvas.toJSON)
+}
+
+const blobToDataURL = (b: Blob) => new Promise<string>((res, rej) => {
+    const r = new FileReader();
+    r.onerror = () => rej(r.error);
+    r.onload = () => res(r.result as string);
+    r.readAsDataURL(b);
+});
+
+// Replace non-inline image sources (asset refs, object / remote URLs) with data URLs so the file stands on its own.
+const embedImageSources = async (objects: any[]): Promise<any[]> => Promise.all(objects.map(async (o) => {
+    if (!o || typeof o !== 'object') return o;
+    const next = { ...o };
+    if (Array.isArray(o.objects)) next.objects = await embedImageSources(o.objects);
+    if (typeof o.src === 'string' && o.src && !o.src.startsWith('data:')) {
+        try {
+            const res = await fetch(o.src);
+            if (res.ok) next.src = await blobToDataURL(await res.blob());
+        } catch (e) {
+            console.warn('Failed to embed image source', e);
+        }
+    }
+    return next;
+}));
+
+export const serializeDocumentFile = async (rec: Pick<DocumentRecord, 'name' | 'data' | 'preview' | 'viewport'>): Promise<Blob> => {
+    const objects = Array.isArray(rec.data?.objects) ? await embedImageSources(await resolveAssetRefs(rec.data.objects)) : [];
+    const file: QCanvasFile = {
+        format: QCANVAS_FORMAT,
+        schemaVersion: QCANVAS_SCHEMA_VERSION,
+        exportedAt: Date.now(),
+        name: rec.name,
+        preview: rec.preview,
+        viewport: rec.viewport,
+        data: { ...rec.data, objects },
+    };
+    return new Blob([JSON.stringify(file)], { type: QCANVAS_MIME });
+};
+
+/**
+ * Parse + validate a .qcanvas file. Throws an Error with a user facing message when the file
+ * is corrupt, not a QuickCanvas document, or written by a newer schema version.
+ */
+export const parseDocumentFile = (text: string): QCanvasFile => {
+    let raw: any;
+    try { raw = JSON.parse(text); } catch { throw new Error('File is corrupt (not valid JSON)'); }
+    if (!raw || typeof raw !== 'object' || raw.format !== QCANVAS_FORMAT) throw new Error('Not a QuickCanvas document');
+    if (typeof raw.schemaVersion !== 'number' || raw.schemaVersion < 1) throw new Error('File is corrupt (missing schema version)');
+    if (raw.schemaVersion > QCANVAS_SCHEMA_VERSION) throw new Error('Document was created by a newer version of QuickCanvas');
+    if (!raw.data || typeof raw.data !== 'object' || !Array.isArray(raw.data.objects)) throw new Error('File is corrupt (missing canvas data)');
+    if (raw.data.objects.some((o: unknown) => !o || typeof o !== 'object' || typeof (o as { type?: unknown }).type !== 'string')) {
+        throw new Error('File is corrupt (invalid objects)');
+    }
+    const viewport = Array.isArray(raw.viewport) && raw.viewport.length === 6 && raw.viewport.every((n: unknown) => typeof n === 'number' && isFinite(n)) ? raw.viewport : undefined;
+    return {
+        format: QCANVAS_FORMAT,
+        schemaVersion: raw.schemaVersion,
+        exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : Date.now(),
+        name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Imported',
+        preview: typeof raw.preview === 'string' && raw.preview.startsWith('data:image/') ? raw.preview : undefined,
+        viewport,
+        data: raw.data,
+    };
+};
+
+// File name safe variant of a document title
+export const documentFileName = (name: string) => `${(name.trim() || 'Untitled').replace(/[\\/:*?"<>|]+/g, '-')}${QCANVAS_EXTENSION}`;
@@ -0,0 +1,121 @@
+import * as fabric from "fabric";
+
+// Arrow: a Line with a decoration on either end. Heads scale with the stroke width and share one geometry
+// (SVG path data) between canvas rendering, SVG export and the selection panel previews.
+export type ArrowHead = 'none' | 'triangle' | 'open' | 'circle' | 'bar';
+export const ARROW_HEADS: ArrowHead[] = ['none', 'triangle', 'open', 'circle', 'bar'];
+
+export const arrowHeadSize = (strokeWidth: number) => Math.max(8, strokeWidth * 4);
+
+interface XY { x: number; y: number; }
+
+/**
+ * Path data of a head whose tip sits at `tip`, pointing away from `from`.
+ * `filled` heads are painted with the stroke color, the others are stroked.
+ */
+export const arrowHeadPath = (head: ArrowHead, tip: XY, from: XY, size: number): { d: string; filled: boolean } | null => {
+    if (head === 'none') return null;
+    const len = Math.hypot(tip.x - from.x, tip.y - from.y) || 1;
+    const u = { x: (tip.x - from.x) / len, y: (tip.y - from.y) / len }; // along the line, towards the tip
+    const n = { x: -u.y, y: u.x };
+    const at = (along: number, across: number) => `${tip.x + u.x * along + n.x * across} ${tip.y + u.y * along + n.y * across}`;
+    switch (head) {
+        case 'triangle': return { d: `M ${at(0, 0)} L ${at(-size, size / 2)} L ${at(-size, -size / 2)} Z`, filled: true };
+        case 'open': return { d: `M ${at(-size, size / 2)} L ${at(0, 0)} L ${at(-size, -size / 2)}`, filled: false };
+        case 'bar': return { d: `M ${at(0, size / 2)} L ${at(0, -size / 2)}`, filled: false };
+        case 'circle': {
+            const r = size / 3;
+            return { d: `M ${at(r, 0)} A ${r} ${r} 0 1 0 ${at(-r, 0)} A ${r} ${r} 0 1 0 ${at(r, 0)} Z`, filled: true };
+        }
+    }
+};
+
+// Filled triangles cover the last stretch of the line: stop it at the head's base so the stroke never pokes out
+export const lineEnd = (head: ArrowHead, tip: XY, from: XY, size: number): XY => {
+    if (head !== 'triangle') return tip;
+    const len = Math.hypot(tip.x - from.x, tip.y - from.y);
+    if (len <= size) return tip;
+    const t = (len - size * 0.9) / len;
+    return { x: from.x + (tip.x - from.x) * t, y: from.y + (tip.y - from.y) * t };
+};
+
+export type HeadPath = { d: string; filled: boolean };
+
+/** Paint head paths (object space) in the stroke color; heads stay solid on dashed strokes. */
+export const paintArrowHeads = (ctx: CanvasRenderingContext2D, color: string | CanvasGradient | CanvasPattern, paths: HeadPath[]) => {
+    if (!paths.length) return;
+    ctx.save();
+    ctx.setLineDash([]);
+    ctx.fillStyle = color;
+    ctx.strokeStyle = color;
+    ctx.lineJoin = 'miter';
+    paths.forEach(p => { const path = new Path2D(p.d); if (p.filled) ctx.fill(path); else ctx.stroke(path); });
+    ctx.restore();
+};
+
+export const arrowHeadsSVG = (paths: HeadPath[], color: string) => paths.map(p => p.filled
+    ? `<path d="${p.d}" fill="${color}" stroke="none" />\n`
+    : `<path d="${p.d}" fill="none" stroke-dasharray="none" stroke-linejoin="miter" />\n`);
+
+export class Arrow extends fabric.Line {
+    static type = 'Arrow';
+    static cacheProperties = [...fabric.Line.cacheProperties, 'startHead', 'endHead'];
+    declare startHead: ArrowHead;
+    declare endHead: ArrowHead;
+
+    // Center origin: the head padding below changes the box size without moving the arrow
+    constructor(points?: [number, number, number, number], options?: Partial<fabric.FabricObjectProps> & { startHead?: ArrowHead; endHead?: ArrowHead }) {
+        super(points, { originX: 'center', originY: 'center', ...options });
+        this.startHead ??= 'none';
+        this.endHead ??= 'triangle';
+    }
+
+    private heads() {
+        const { x1, y1, x2, y2 } = this.calcLinePoints();
+        const start = { x: x1, y: y1 }, end = { x: x2, y: y2 };
+        const size = arrowHeadSize(this.strokeWidth);
+        return {
+            from: lineEnd(this.startHead, start, end, size),
+            to: lineEnd(this.endHead, end, start, size),
+            paths: [arrowHeadPath(this.startHead, start, end, size), arrowHeadPath(this.endHead, end, start, size)]
+                .filter((p): p is HeadPath => p !== null),
+        };
+    }
+
+    // Heads reach up to half a head size past the line's box on every side
+    _getNonTransformedDimensions() {
+        const dim = super._getNonTransformedDimensions();
+        return this.startHead === 'none' && this.endHead === 'none' ? dim : dim.scalarAdd(arrowHeadSize(this.strokeWidth));
+    }
+
+    _render(ctx: CanvasRenderingContext2D) {
+        const { from, to, paths } = this.heads();
+        const color = this.stroke && typeof this.stroke !== 'string' ? this.stroke.toLive(ctx) : this.stroke ?? ctx.fillStyle;
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+        ctx.lineWidth = this.strokeWidth;
+        const origStrokeStyle = ctx.strokeStyle;
+        ctx.strokeStyle = color as string | CanvasGradient | CanvasPattern;
+        if (this.stroke) this._renderStroke(ctx);
+        if (this.stroke) paintArrowHeads(ctx, color as string | CanvasGradient | CanvasPattern, paths);
+        ctx.strokeStyle = origStrokeStyle;
+    }
+
+    _toSVG() {
+        const { from, to, paths } = this.heads();
+        const color = typeof this.stroke === 'string' ? this.stroke : 'currentColor';
+        return [
+            '<g ', 'COMMON_PARTS', '>\n',
+            `<line x1="${from.x}" y1="${from.y}" x2="${to.x}" y2="${to.y}" />\n`,
+            ...arrowHeadsSVG(paths, color),
+            '</g>\n',
+        ];
+    }
+
+    toObject(propertiesToInclude: any[] = []): any {
+        return super.toObject([...propertiesToInclude, 'startHead', 'endHead']);
+    }
+}
+
+fabric.classRegistry.setClass(Arrow);
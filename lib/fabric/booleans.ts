@@ -0,0 +1,118 @@
+import * as fabric from "fabric";
+import polygonClipping, { MultiPolygon, Pair, Polygon, Ring } from "polygon-clipping";
+import { pathToSubPaths } from "@/lib/fabric/pathEditing";
+
+// Boolean operations on vector shapes: operands are flattened to scene-space polygons (curves sampled), combined
+// with polygon-clipping and turned back into one fabric.Path. Geometry is the fill area only; strokes are not outlined.
+export type BooleanOp = 'union' | 'subtract' | 'intersect' | 'exclude';
+
+export const BOOLEAN_OPS: { op: BooleanOp; label: string }[] = [
+    { op: 'union', label: 'Union' },
+    { op: 'subtract', label: 'Subtract' },
+    { op: 'intersect', label: 'Intersect' },
+    { op: 'exclude', label: 'Exclude' },
+];
+
+const OPERAND_TYPES = new Set(['rect', 'ellipse', 'circle', 'polygon', 'regularpolygon', 'star', 'path']);
+
+export const isBooleanOperand = (obj: fabric.Object) => OPERAND_TYPES.has(obj.type);
+
+const CURVE_STEPS = 16; // samples per cubic segment
+const ELLIPSE_STEPS = 64;
+const CORNER_STEPS = 8; // samples per rounded rect corner
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const ellipseRing = (cx: number, cy: number, rx: number, ry: number, from = 0, to = Math.PI * 2, steps = ELLIPSE_STEPS): fabric.XY[] =>
+    Array.from({ length: steps + 1 }, (_, i) => {
+        const a = from + ((to - from) * i) / steps;
+        return { x: cx + rx * Math.cos(a), y: cy + ry * Math.sin(a) };
+    });
+
+// Outline(s) of an object in its own (center-origin) coordinates
+const localRings = (obj: fabric.Object): fabric.XY[][] => {
+    if (obj instanceof fabric.Rect) {
+        const w = obj.width / 2, h = obj.height / 2;
+        const rx = Math.min(obj.rx || 0, w), ry = Math.min(obj.ry || 0, h);
+        if (!rx || !ry) return [[{ x: -w, y: -h }, { x: w, y: -h }, { x: w, y: h }, { x: -w, y: h }]];
+        const q = Math.PI / 2;
+        return [[
+            ...ellipseRing(w - rx, -h + ry, rx, ry, -q, 0, CORNER_STEPS),
+            ...ellipseRing(w - rx, h - ry, rx, ry, 0, q, CORNER_STEPS),
+            ...ellipseRing(-w + rx, h - ry, rx, ry, q, 2 * q, CORNER_STEPS),
+            ...ellipseRing(-w + rx, -h + ry, rx, ry, 2 * q, 3 * q, CORNER_STEPS),
+        ]];
+    }
+    if (obj instanceof fabric.Ellipse) return [ellipseRing(0, 0, obj.rx, obj.ry)];
+    if (obj instanceof fabric.Circle) return [ellipseRing(0, 0, obj.radius, obj.radius)];
+    if (obj instanceof fabric.Polyline) return [obj.points.map(p => ({ x: p.x - obj.pathOffset.x, y: p.y - obj.pathOffset.y }))];
+    if (obj instanceof fabric.Path) {
+        const offset = obj.pathOffset;
+        // Open subpaths are treated as closed (that is the area their fill covers)
+        return pathToSubPaths(obj.path).map(({ nodes, closed }) => {
+            const ring: fabric.XY[] = [{ x: nodes[0].x, y: nodes[0].y }];
+            const segments = closed ? [...nodes.slice(1), nodes[0]] : nodes.slice(1);
+            segments.forEach((to, i) => {
+                const from = nodes[i];
+                if (!from.out && !to.in) { ring.push({ x: to.x, y: to.y }); return; }
+                const p1 = from.out ?? from, p2 = to.in ?? to;
+                for (let s = 1; s <= CURVE_STEPS; s++) {
+                    const t = s / CURVE_STEPS, u = 1 - t;
+                    ring.push({
+                        x: u * u * u * from.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * to.x,
+                        y: u * u * u * from.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * to.y,
+                    });
+                }
+            });
+            return ring.map(p => ({ x: p.x - offset.x, y: p.y - offset.y }));
+        });
+    }
+    return [];
+};
+
+// Scene-space geometry of one operand; the rings of a path are combined even-odd so holes stay holes
+const toGeometry = (obj: fabric.Object): MultiPolygon => {
+    const matrix = obj.calcTransformMatrix();
+    const polygons: Polygon[] = localRings(obj)
+        .filter(ring => ring.length >= 3)
+        .map(ring => [ring.map(p => {
+            const { x, y } = fabric.util.transformPoint(p, matrix);
+            return [x, y] as Pair;
+        })]);
+    if (polygons.length <= 1) return polygons;
+    return polygonClipping.xor(polygons[0], ...polygons.slice(1));
+};
+
+const toPathData = (geometry: MultiPolygon) =>
+    geometry.flatMap(polygon => polygon.map((ring: Ring) => {
+        // polygon-clipping repeats the first point at the end: Z closes it instead
+        const points = ring.slice(0, -1);
+        return points.map(([x, y], i) => `${i ? 'L' : 'M'} ${round(x)} ${round(y)}`).join(' ') + ' Z';
+    })).join(' ');
+
+/**
+ * Combine `operands` (bottom to top z-order) into a single path, styled like the bottom operand.
+ * Subtract removes every upper operand from the bottom one. Returns null when nothing is left.
+ */
+export const booleanPath = (operands: fabric.Object[], op: BooleanOp): fabric.Path | null => {
+    const [first, ...rest] = operands.map(toGeometry);
+    if (!first) return null;
+    const result = op === 'union' ? polygonClipping.union(first, ...rest)
+        : op === 'subtract' ? polygonClipping.difference(first, ...rest)
+            : op === 'intersect' ? polygonClipping.intersection(first, ...rest)
+                : polygonClipping.xor(first, ...rest);
+    if (!result.length) return null;
+    const base = operands[0];
+    // A stroked, scaled operand keeps its visual stroke width on the unscaled result
+    const scale = base.strokeUniform ? 1 : Math.sqrt(Math.abs(base.scaleX * base.scaleY));
+    return new fabric.Path(toPathData(result), {
+        fill: base.fill || base.stroke || '#000000',
+        stroke: base.stroke,
+        strokeWidth: base.strokeWidth * scale,
+        strokeDashArray: base.strokeDashArray,
+        strokeLineJoin: base.strokeLineJoin,
+        strokeUniform: base.strokeUniform,
+        opacity: base.opacity,
+        fillRule: 'evenodd',
+    });
+};
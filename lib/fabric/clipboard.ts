@@ -2,6 +2,7 @@ import * as fabric from "fabric";
 import { addObjectsAsSelection, centerObjectAt } from "./utils";
 import { exportSelectionToPNGBlob, exportSelectionToSVGString } from "./export";
 import { toast } from "sonner";
+import { storeAssetBlob } from "@/lib/assets";
 
 /** Parse and add an SVG string to the canvas at target point. Emits a toast on failure and never rejects. */
 export const addSVGString = async (canvas: fabric.Canvas, rawSvg: string, target: fabric.Point): Promise<void> => {
@@ -79,16 +80,10 @@ export const addImageBlob = async (
     setStatus: (s: string) => void
 ) => {
     setStatus("Pasting image...");
-    const blobToDataURL = (b: Blob) =>
-        new Promise<string>((res, rej) => {
-            const r = new FileReader();
-            r.onerror = () => rej(r.error);
-            r.onload = () => res(r.result as string);
-            r.readAsDataURL(b);
-        });
     try {
-        const dataUrl = await blobToDataURL(blob);
-        const img: any = await (fabric.Image as any).fromURL(dataUrl, { crossOrigin: "anonymous" });
+        // Raw bytes go to the content-addressed asset store; the image renders from a session object URL
+        const { url } = await storeAssetBlob(blob);
+        const img: any = await (fabric.Image as any).fromURL(url, { crossOrigin: "anonymous" });
         if (!img) throw new Error("fromURL returned null image");
         img.set({ evented: true });
         centerObjectAt(img, target);
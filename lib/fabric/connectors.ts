@@ -0,0 +1,350 @@
+import * as fabric from "fabric";
+import { ArrowHead, arrowHeadPath, arrowHeadSize, arrowHeadsSVG, HeadPath, lineEnd, paintArrowHeads } from "@/lib/fabric/arrows";
+import { ensureObjectId, PropMutationState } from "@/lib/history/commandManager";
+
+// Connector: a polyline whose ends are bound to anchor points (side midpoints) of other objects by qcId and re-routed
+// whenever those move. Points are kept in the parent plane with no own transform (no scale / rotation), so routing
+// can write scene positions straight into them. An end whose object is gone stays where it was (undo brings it back).
+export type ConnectorRouting = 'straight' | 'elbow';
+export type AnchorSide = 'top' | 'right' | 'bottom' | 'left';
+
+export const CONNECTOR_STYLE = { stroke: '#0f172a', strokeWidth: 2 } as const;
+
+const ANCHORS: Record<AnchorSide, fabric.XY> = { top: { x: 0, y: -1 }, right: { x: 1, y: 0 }, bottom: { x: 0, y: 1 }, left: { x: -1, y: 0 } };
+const ELBOW_STUB = 20; // straight run out of a bound anchor before the first bend
+const SNAP_DISTANCE = 24; // screen px around an object within which the connector tool offers its anchors
+const PREVIEW_COLOR = '#3b82f6';
+
+export const isConnector = (obj: fabric.Object | undefined | null): obj is Connector => obj instanceof Connector;
+
+// Objects a connector end can attach to (not connectors, not objects outside the canvas stack)
+const isAnchorable = (obj: fabric.Object) => !isConnector(obj) && obj.visible && obj.evented;
+
+/** Scene position of an anchor and the (axis aligned) direction pointing away from the object. */
+export const anchorPoint = (obj: fabric.Object, side: AnchorSide) => {
+    const dim = obj._getNonTransformedDimensions();
+    const unit = ANCHORS[side];
+    const matrix = obj.calcTransformMatrix();
+    const point = fabric.util.transformPoint({ x: (unit.x * dim.x) / 2, y: (unit.y * dim.y) / 2 }, matrix);
+    const dir = fabric.util.transformPoint(unit, matrix, true);
+    return { point, dir: Math.abs(dir.x) >= Math.abs(dir.y) ? { x: Math.sign(dir.x), y: 0 } : { x: 0, y: Math.sign(dir.y) } };
+};
+
+const nearestAnchor = (obj: fabric.Object, p: fabric.XY): AnchorSide =>
+    (Object.keys(ANCHORS) as AnchorSide[]).reduce((best, side) => {
+        const a = anchorPoint(obj, side).point, b = anchorPoint(obj, best).point;
+        return Math.hypot(a.x - p.x, a.y - p.y) < Math.hypot(b.x - p.x, b.y - p.y) ? side : best;
+    });
+
+// Axis aligned direction from `from` towards `to` (free ends leave / enter along the dominant axis)
+const towards = (from: fabric.XY, to: fabric.XY): fabric.XY =>
+    Math.abs(to.x - from.x) >= Math.abs(to.y - from.y) ? { x: Math.sign(to.x - from.x) || 1, y: 0 } : { x: 0, y: Math.sign(to.y - from.y) || 1 };
+
+// Drop repeated points and the middle one of three collinear points
+const compact = (points: fabric.XY[]) => points.reduce<fabric.XY[]>((out, p) => {
+    const last = out[out.length - 1];
+    if (last && Math.abs(last.x - p.x) < 1e-6 && Math.abs(last.y - p.y) < 1e-6) return out;
+    const prev = out[out.length - 2];
+    if (prev && last && Math.abs((last.x - prev.x) * (p.y - prev.y) - (last.y - prev.y) * (p.x - prev.x)) < 1e-6) out.pop();
+    out.push(p);
+    return out;
+}, []);
+
+interface RouteEnd { point: fabric.XY; dir: fabric.XY; stub: number; }
+
+/** Orthogonal route: leave `a` along its direction, bend once or twice, enter `b` against its direction. */
+const elbowRoute = (a: RouteEnd, b: RouteEnd): fabric.XY[] => {
+    const p1 = { x: a.point.x + a.dir.x * a.stub, y: a.point.y + a.dir.y * a.stub };
+    const p2 = { x: b.point.x + b.dir.x * b.stub, y: b.point.y + b.dir.y * b.stub };
+    const aHorizontal = a.dir.x !== 0, bHorizontal = b.dir.x !== 0;
+    let bends: fabric.XY[];
+    if (aHorizontal && bHorizontal) { const x = (p1.x + p2.x) / 2; bends = [{ x, y: p1.y }, { x, y: p2.y }]; }
+    else if (!aHorizontal && !bHorizontal) { const y = (p1.y + p2.y) / 2; bends = [{ x: p1.x, y }, { x: p2.x, y }]; }
+    else bends = aHorizontal ? [{ x: p2.x, y: p1.y }] : [{ x: p1.x, y: p2.y }];
+    return compact([a.point, p1, ...bends, p2, b.point]);
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export interface ConnectorEnds {
+    sourceId?: string | null; sourceAnchor?: AnchorSide | null;
+    targetId?: string | null; targetAnchor?: AnchorSide | null;
+}
+
+type ConnectorOptions = Partial<fabric.FabricObjectProps> & ConnectorEnds & { routing?: ConnectorRouting; startHead?: ArrowHead; endHead?: ArrowHead };
+
+export class Connector extends fabric.Polyline {
+    static type = 'Connector';
+    static cacheProperties = [...fabric.Polyline.cacheProperties, 'startHead', 'endHead'];
+    declare sourceId: string | null;
+    declare sourceAnchor: AnchorSide | null;
+    declare targetId: string | null;
+    declare targetAnchor: AnchorSide | null;
+    declare routing: ConnectorRouting;
+    declare startHead: ArrowHead;
+    declare endHead: ArrowHead;
+
+    // Selected and deleted like any object, but only moved through the objects it connects
+    constructor(points?: fabric.XY[], options?: ConnectorOptions) {
+        super(points, {
+            fill: null,
+            strokeLineJoin: 'round',
+            perPixelTargetFind: true, // the box of a long connector would otherwise swallow clicks on the shapes under it
+            hasControls: false,
+            lockMovementX: true,
+            lockMovementY: true,
+            lockRotation: true,
+            lockScalingX: true,
+            lockScalingY: true,
+            ...options,
+        });
+        this.sourceId ??= null; this.sourceAnchor ??= null;
+        this.targetId ??= null; this.targetAnchor ??= null;
+        this.routing ??= 'elbow';
+        this.startHead ??= 'none';
+        this.endHead ??= 'triangle';
+    }
+
+    // Scene positions of the current ends (also right while the connector sits in an active selection)
+    private ends(): [fabric.XY, fabric.XY] {
+        const matrix = fabric.util.multiplyTransformMatrices(this.calcTransformMatrix(), [1, 0, 0, 1, -this.pathOffset.x, -this.pathOffset.y]);
+        const first = this.points[0], last = this.points[this.points.length - 1];
+        return [fabric.util.transformPoint(first, matrix), fabric.util.transformPoint(last, matrix)];
+    }
+
+    /** Recompute the points from the bound objects; returns whether anything changed. */
+    route(): boolean {
+        const canvas = this.canvas;
+        if (!canvas || this.points.length < 2) return false;
+        const objects = canvas.getObjects();
+        const find = (id: string | null) => id ? objects.find(o => o.qcId === id && o !== this) : undefined;
+        const [start, end] = this.ends();
+        const source = find(this.sourceId), target = find(this.targetId);
+        const a = source && this.sourceAnchor ? anchorPoint(source, this.sourceAnchor) : null;
+        const b = target && this.targetAnchor ? anchorPoint(target, this.targetAnchor) : null;
+        const from = a?.point ?? start, to = b?.point ?? end;
+        const scene = this.routing === 'straight' ? [from, to] : elbowRoute(
+            { point: from, dir: a?.dir ?? towards(from, to), stub: a ? ELBOW_STUB : 0 },
+            { point: to, dir: b?.dir ?? towards(to, from), stub: b ? ELBOW_STUB : 0 },
+        );
+        // Points live in the parent plane: the active selection's while the connector is part of one
+        const toParent = this.group ? fabric.util.invertTransform(this.group.calcTransformMatrix()) : null;
+        const points = scene.map(p => {
+            const q = toParent ? fabric.util.transformPoint(p, toParent) : p;
+            return new fabric.Point(round(q.x), round(q.y));
+        });
+        const current = this.points;
+        const untransformed = this.scaleX === 1 && this.scaleY === 1 && !this.angle && !this.skewX && !this.skewY && !this.flipX && !this.flipY;
+        if (untransformed && points.length === current.length && points.every((p, i) => p.x === current[i].x && p.y === current[i].y)) return false;
+        // Scaling / rotating an active selection bakes its transform into the members: drop it, the points carry the geometry
+        this.set({ scaleX: 1, scaleY: 1, angle: 0, skewX: 0, skewY: 0, flipX: false, flipY: false });
+        this.points = points;
+        this.setBoundingBox(true);
+        this.dirty = true;
+        this.setCoords();
+        return true;
+    }
+
+    // Switching the routing style re-routes in place (property panel, undo / redo of it)
+    _set(key: string, value: any) {
+        const reroute = key === 'routing' && !!this.canvas && (this as any)[key] !== value;
+        super._set(key, value);
+        if (reroute) this.route();
+        return this;
+    }
+
+    private heads() {
+        const local = this.points.map(p => ({ x: p.x - this.pathOffset.x, y: p.y - this.pathOffset.y }));
+        const size = arrowHeadSize(this.strokeWidth);
+        const n = local.length;
+        const first = local[0], second = local[1], last = local[n - 1], beforeLast = local[n - 2];
+        return {
+            points: [lineEnd(this.startHead, first, second, size), ...local.slice(1, -1), lineEnd(this.endHead, last, beforeLast, size)],
+            paths: [arrowHeadPath(this.startHead, first, second, size), arrowHeadPath(this.endHead, last, beforeLast, size)]
+                .filter((p): p is HeadPath => p !== null),
+        };
+    }
+
+    // Heads reach up to half a head size past the points' box on every side
+    _getNonTransformedDimensions() {
+        const dim = super._getNonTransformedDimensions();
+        return this.startHead === 'none' && this.endHead === 'none' ? dim : dim.scalarAdd(arrowHeadSize(this.strokeWidth));
+    }
+
+    _render(ctx: CanvasRenderingContext2D) {
+        if (this.points.length < 2) return;
+        const { points, paths } = this.heads();
+        ctx.beginPath();
+        points.forEach((p, i) => (i ? ctx.lineTo(p.x, p.y) : ctx.moveTo(p.x, p.y)));
+        this._renderPaintInOrder(ctx);
+        if (!this.stroke) return;
+        const color = typeof this.stroke === 'string' ? this.stroke : this.stroke.toLive(ctx);
+        if (color) paintArrowHeads(ctx, color, paths);
+    }
+
+    _toSVG() {
+        const { points, paths } = this.heads();
+        const color = typeof this.stroke === 'string' ? this.stroke : 'currentColor';
+        return [
+            '<g ', 'COMMON_PARTS', '>\n',
+            `<polyline points="${points.map(p => `${round(p.x)},${round(p.y)}`).join(' ')}" />\n`,
+            ...arrowHeadsSVG(paths, color),
+            '</g>\n',
+        ];
+    }
+
+    toObject(propertiesToInclude: any[] = []): any {
+        return super.toObject([...propertiesToInclude, 'sourceId', 'sourceAnchor', 'targetId', 'targetAnchor', 'routing', 'startHead', 'endHead']);
+    }
+}
+
+fabric.classRegistry.setClass(Connector);
+
+/** Connectors with an end bound to one of `objects` (excluding connectors in `objects` themselves). */
+export const attachedConnectors = (canvas: fabric.Canvas, objects: fabric.Object[]): Connector[] => {
+    const ids = new Set(objects.map(o => o.qcId).filter(Boolean));
+    if (!ids.size) return [];
+    return canvas.getObjects().filter((o): o is Connector =>
+        isConnector(o) && !objects.includes(o) && (ids.has(o.sourceId ?? '') || ids.has(o.targetId ?? '')));
+};
+
+/** Re-route the connectors attached to `target` (an object or an active selection) and any connectors it contains. */
+export const rerouteConnectors = (canvas: fabric.Canvas, target: fabric.Object) => {
+    const objects = target instanceof fabric.ActiveSelection ? target.getObjects() : [target];
+    const connectors = [...objects.filter(isConnector), ...attachedConnectors(canvas, objects)];
+    return connectors.reduce((changed, c) => c.route() || changed, false);
+};
+
+/**
+ * Re-route the connectors attached to `objects` after an edit made outside canvas transforms (property panel), and
+ * return the geometry of those that moved, before and after, so the edit's undo step covers them.
+ */
+export const rerouteAttachedConnectors = (canvas: fabric.Canvas, objects: fabric.Object[]) => {
+    const before: PropMutationState[] = [], after: PropMutationState[] = [];
+    attachedConnectors(canvas, objects).forEach(c => {
+        const geometry = () => ({ left: c.left, top: c.top, points: c.points.map(({ x, y }) => ({ x, y })) });
+        const previous = geometry();
+        if (!c.route()) return;
+        const qcId = ensureObjectId(c);
+        before.push({ qcId, props: previous });
+        after.push({ qcId, props: geometry() });
+    });
+    return { before, after };
+};
+
+/**
+ * Pasted copies arrive with the qcIds of their originals: give them fresh ones and rebind the connectors among them.
+ * An end bound to another pasted object follows its copy, an end bound to anything else becomes free.
+ */
+export const rebindPastedObjects = (objects: fabric.Object[]) => {
+    const ids = new Map<string, string>();
+    objects.forEach(o => {
+        const original = o.qcId;
+        o.qcId = undefined;
+        const id = ensureObjectId(o);
+        if (original) ids.set(original, id);
+    });
+    objects.filter(isConnector).forEach(c => {
+        const sourceId = (c.sourceId && ids.get(c.sourceId)) || null;
+        const targetId = (c.targetId && ids.get(c.targetId)) || null;
+        c.set({
+            sourceId, sourceAnchor: sourceId ? c.sourceAnchor : null,
+            targetId, targetAnchor: targetId ? c.targetAnchor : null,
+        });
+    });
+};
+
+interface Endpoint { object: fabric.Object | null; anchor: AnchorSide | null; point: fabric.XY; }
+
+/**
+ * Connector tool: press on (or near) an object to start at its closest anchor, release over another object to end
+ * at its closest anchor. Either end may also be left free on empty canvas. Feedback is drawn on the top canvas.
+ */
+export class ConnectorSession {
+    private readonly canvas: fabric.Canvas;
+    private start: Endpoint | null = null;
+    private hover: Endpoint | null = null;
+    private readonly onRender = () => this.renderOverlay();
+
+    constructor(canvas: fabric.Canvas) {
+        this.canvas = canvas;
+        canvas.on('after:render', this.onRender);
+    }
+
+    // Topmost anchorable object under (or within snapping distance of) the pointer, with its closest anchor
+    private endpointAt(p: fabric.Point): Endpoint {
+        const margin = SNAP_DISTANCE / this.canvas.getZoom();
+        const object = [...this.canvas.getObjects()].reverse().find(o => {
+            if (!isAnchorable(o)) return false;
+            const box = o.getBoundingRect();
+            return p.x >= box.left - margin && p.x <= box.left + box.width + margin && p.y >= box.top - margin && p.y <= box.top + box.height + margin;
+        }) ?? null;
+        if (!object) return { object: null, anchor: null, point: p };
+        const anchor = nearestAnchor(object, p);
+        return { object, anchor, point: anchorPoint(object, anchor).point };
+    }
+
+    pointerDown(p: fabric.Point) {
+        this.start = this.endpointAt(p);
+        this.hover = this.start;
+        this.canvas.requestRenderAll();
+    }
+
+    pointerMove(p: fabric.Point) {
+        this.hover = this.endpointAt(p);
+        // A connector from an object back to itself is never what was meant
+        if (this.start?.object && this.hover.object === this.start.object) this.hover = { object: null, anchor: null, point: p };
+        this.canvas.requestRenderAll();
+    }
+
+    /** Returns the new connector (not yet added to the canvas) when the drag spanned a few pixels. */
+    pointerUp(p: fabric.Point): Connector | null {
+        const start = this.start;
+        this.start = null;
+        if (!start) return null;
+        this.pointerMove(p);
+        const end = this.hover!;
+        this.canvas.requestRenderAll();
+        if (Math.hypot(end.point.x - start.point.x, end.point.y - start.point.y) * this.canvas.getZoom() < 4) return null;
+        return new Connector([start.point, end.point].map(q => new fabric.Point(q.x, q.y)), {
+            stroke: CONNECTOR_STYLE.stroke,
+            strokeWidth: CONNECTOR_STYLE.strokeWidth,
+            sourceId: start.object ? ensureObjectId(start.object) : null,
+            sourceAnchor: start.anchor,
+            targetId: end.object ? ensureObjectId(end.object) : null,
+            targetAnchor: end.anchor,
+        });
+    }
+
+    dispose() {
+        this.canvas.off('after:render', this.onRender);
+        if (!this.canvas.disposed) this.canvas.clearContext(this.canvas.contextTop);
+    }
+
+    // Anchors of the hovered object (closest one filled) + a straight rubber band while dragging, in screen space
+    private renderOverlay() {
+        const { canvas } = this;
+        const ctx = canvas.contextTop;
+        canvas.clearContext(ctx);
+        const vpt = canvas.viewportTransform;
+        const toScreen = (p: fabric.XY) => new fabric.Point(p.x, p.y).transform(vpt);
+        ctx.save();
+        ctx.lineWidth = 1.5;
+        ctx.strokeStyle = PREVIEW_COLOR;
+        if (this.start && this.hover) {
+            const a = toScreen(this.start.point), b = toScreen(this.hover.point);
+            ctx.setLineDash([4, 4]);
+            ctx.beginPath(); ctx.moveTo(a.x, a.y); ctx.lineTo(b.x, b.y); ctx.stroke();
+            ctx.setLineDash([]);
+        }
+        [this.start, this.hover].forEach(end => {
+            if (!end?.object) return;
+            (Object.keys(ANCHORS) as AnchorSide[]).forEach(side => {
+                const p = toScreen(anchorPoint(end.object!, side).point);
+                ctx.fillStyle = side === end.anchor ? PREVIEW_COLOR : '#ffffff';
+                ctx.beginPath(); ctx.arc(p.x, p.y, 4.5, 0, Math.PI * 2); ctx.fill(); ctx.stroke();
+            });
+        });
+        ctx.restore();
+    }
+}
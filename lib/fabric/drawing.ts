@@ -0,0 +1,119 @@
+import * as fabric from "fabric";
+
+// Freehand drawing (the `draw` tool): a PencilBrush that simplifies strokes before turning them into paths so
+// stored documents / history entries stay small. The highlighter is the same brush, wider and semi-transparent.
+export type DrawVariant = 'pencil' | 'highlighter';
+
+export interface BrushStyle { color: string; width: number; }
+export interface DrawSettings { variant: DrawVariant; styles: Record<DrawVariant, BrushStyle>; }
+
+export const DRAW_WIDTH_RANGE = { min: 1, max: 48 } as const;
+export const HIGHLIGHTER_OPACITY = 0.35;
+
+export const DEFAULT_DRAW_SETTINGS: DrawSettings = {
+    variant: 'pencil',
+    styles: {
+        pencil: { color: '#111827', width: 3 },
+        highlighter: { color: '#f59e0b', width: 18 },
+    },
+};
+
+const SETTINGS_KEY = 'qc:drawSettings';
+
+export const getDrawSettings = (): DrawSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null') as Partial<DrawSettings> | null;
+        if (stored) return { ...DEFAULT_DRAW_SETTINGS, ...stored, styles: { ...DEFAULT_DRAW_SETTINGS.styles, ...stored.styles } };
+    } catch { }
+    return DEFAULT_DRAW_SETTINGS;
+};
+
+export const setDrawSettings = (settings: DrawSettings) => {
+    try { localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings)); } catch { }
+};
+
+const distanceToSegment = (p: fabric.XY, a: fabric.XY, b: fabric.XY) => {
+    const dx = b.x - a.x, dy = b.y - a.y;
+    const lenSq = dx * dx + dy * dy;
+    if (!lenSq) return Math.hypot(p.x - a.x, p.y - a.y);
+    const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+    return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+/** Ramer–Douglas–Peucker: drop points closer than `tolerance` to the polyline through the kept ones. */
+export const simplifyPoints = <T extends fabric.XY>(points: T[], tolerance: number): T[] => {
+    if (points.length <= 2) return points;
+    const keep = new Uint8Array(points.length);
+    keep[0] = keep[points.length - 1] = 1;
+    const stack: [number, number][] = [[0, points.length - 1]];
+    while (stack.length) {
+        const [first, last] = stack.pop()!;
+        let index = -1, max = tolerance;
+        for (let i = first + 1; i < last; i++) {
+            const d = distanceToSegment(points[i], points[first], points[last]);
+            if (d > max) { max = d; index = i; }
+        }
+        if (index !== -1) { keep[index] = 1; stack.push([first, index], [index, last]); }
+    }
+    return points.filter((_, i) => keep[i]);
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export class SketchBrush extends fabric.PencilBrush {
+    // Screen pixels a dropped point may deviate from the simplified stroke (divided by the zoom like `decimate`)
+    simplifyTolerance = 0.75;
+    opacity = 1;
+    private active = false;
+
+    // Only the primary button draws: middle-drag keeps panning while the draw tool is active
+    onMouseDown(pointer: fabric.Point, ev: fabric.TEvent) {
+        if ((ev.e as MouseEvent).button > 0) return;
+        this.active = true;
+        super.onMouseDown(pointer, ev);
+    }
+
+    onMouseMove(pointer: fabric.Point, ev: fabric.TEvent) {
+        if (this.active) super.onMouseMove(pointer, ev);
+    }
+
+    onMouseUp(ev: fabric.TEvent) {
+        if (!this.active) return true;
+        this.active = false;
+        const result = super.onMouseUp(ev);
+        this.canvas.contextTop.globalAlpha = 1;
+        return result;
+    }
+
+    // Preview with the final opacity (paths get it as `opacity`, a single stroke never darkens where it overlaps)
+    _setBrushStyles(ctx: CanvasRenderingContext2D) {
+        super._setBrushStyles(ctx);
+        ctx.globalAlpha = this.opacity;
+    }
+
+    decimatePoints(points: fabric.Point[], distance: number) {
+        return simplifyPoints(super.decimatePoints(points, distance), this.simplifyTolerance / this.canvas.getZoom());
+    }
+
+    createPath(pathData: fabric.TSimplePathData) {
+        const rounded = pathData.map(([cmd, ...args]) => [cmd, ...args.map(round)]) as fabric.TSimplePathData;
+        const path = super.createPath(rounded);
+        if (this.opacity < 1) path.set({ opacity: this.opacity });
+        return path;
+    }
+}
+
+/** Point `canvas.freeDrawingBrush` at a SketchBrush styled from `settings`. */
+export const configureBrush = (canvas: fabric.Canvas, settings: DrawSettings) => {
+    const brush = canvas.freeDrawingBrush instanceof SketchBrush ? canvas.freeDrawingBrush : new SketchBrush(canvas);
+    const { color, width } = settings.styles[settings.variant];
+    const highlighter = settings.variant === 'highlighter';
+    brush.color = color;
+    brush.width = width;
+    brush.opacity = highlighter ? HIGHLIGHTER_OPACITY : 1;
+    brush.strokeLineCap = highlighter ? 'square' : 'round';
+    brush.strokeLineJoin = 'round';
+    brush.decimate = 2;
+    canvas.freeDrawingBrush = brush;
+    return brush;
+};
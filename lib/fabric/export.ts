@@ -1,4 +1,7 @@
 import * as fabric from "fabric";
+import { inlineObjectURLs } from "@/lib/assets";
+import { isConnector } from "@/lib/fabric/connectors";
+import { Frame, frameContents, installFrameClipping, isFrame } from "@/lib/fabric/frames";
 
 /**
  * Export a fabric object (single or activeselection) to a PNG Blob.
@@ -6,14 +9,13 @@ import * as fabric from "fabric";
  */
 export const exportSelectionToPNGBlob = async (active: any): Promise<Blob> => {
     const bounds = active.getBoundingRect(true, true);
-    const tempEl = document.createElement("canvas");
-    tempEl.width = Math.ceil(bounds.width);
-    tempEl.height = Math.ceil(bounds.height);
-    const tempCanvas = new fabric.Canvas(tempEl, {
-        width: tempEl.width,
-        height: tempEl.height,
-        selection: false,
+    // Static canvas: frames draw no editor chrome and clip their content as they do on screen
+    const tempCanvas = new fabric.StaticCanvas(document.createElement("canvas"), {
+        width: Math.ceil(bounds.width),
+        height: Math.ceil(bounds.height),
+        enableRetinaScaling: false,
     });
+    installFrameClipping(tempCanvas);
 
     const cloned: any = await active.clone();
     const objs: any[] = cloned.isType?.('activeselection') ? cloned._objects || [] : [cloned];
@@ -65,16 +67,72 @@ export const exportSelectionToSVGString = async (active: any): Promise<string> =
         svg = svg.replace(/<svg(\s+[^>]*)?>/i, (m) => m.replace(/>$/, '') + ` viewBox="0 0 ${Math.ceil(bounds.width)} ${Math.ceil(bounds.height)}">`);
     }
     tempCanvas.dispose();
-    return svg;
+    // Images render from session object URLs – inline them so the SVG is usable outside this tab
+    return inlineObjectURLs(svg);
 };
 
 /**
- * Export either the current active selection (if any) or the full set of canvas objects to a PNG Blob.
+ * Render a frame and its content (nested frames included, clipped like on screen) on an offscreen static canvas the
+ * exact size of the frame (no editor chrome; anything overflowing the frame is cropped). Connectors between objects
+ * of the frame are included.
+ */
+const renderFrame = async (canvas: fabric.Canvas, frame: Frame): Promise<fabric.StaticCanvas> => {
+    const box = frame.getBoundingRect();
+    const children = frameContents(canvas, frame);
+    const ids = new Set([frame, ...children].map(o => o.qcId).filter(Boolean));
+    const connectors = canvas.getObjects().filter(o => isConnector(o) && ids.has(o.sourceId ?? '') && ids.has(o.targetId ?? ''));
+    const objects = canvas.getObjects().filter(o => o === frame || children.includes(o) || connectors.includes(o));
+    const tempCanvas = new fabric.StaticCanvas(document.createElement("canvas"), {
+        width: Math.round(box.width),
+        height: Math.round(box.height),
+        enableRetinaScaling: false,
+    });
+    installFrameClipping(tempCanvas);
+    for (const o of objects) {
+        try {
+            const c = await o.clone();
+            c.set({ left: c.left - box.left, top: c.top - box.top });
+            tempCanvas.add(c);
+        } catch (e) {
+            console.warn("Clone failed during frame export", e);
+        }
+    }
+    tempCanvas.renderAll();
+    return tempCanvas;
+};
+
+/** Export a frame at its exact bounds to a PNG Blob. */
+export const exportFrameToPNGBlob = async (canvas: fabric.Canvas, frame: Frame): Promise<Blob> => {
+    const tempCanvas = await renderFrame(canvas, frame);
+    const dataUrl = tempCanvas.toDataURL({ format: "png", multiplier: 1, enableRetinaScaling: false });
+    const res = await fetch(dataUrl);
+    const blob = await res.blob();
+    tempCanvas.dispose();
+    return blob;
+};
+
+/** Export a frame at its exact bounds to an SVG string. */
+export const exportFrameToSVGString = async (canvas: fabric.Canvas, frame: Frame): Promise<string> => {
+    const tempCanvas = await renderFrame(canvas, frame);
+    const svg = tempCanvas.toSVG();
+    tempCanvas.dispose();
+    return inlineObjectURLs(svg);
+};
+
+/** File name (without extension) for an exported frame. */
+export const frameFileName = (frame: Frame) => (frame.name.trim() || 'frame').replace(/[\\/:*?"<>|]+/g, '-');
+
+/**
+ * Export either a selected frame (at its exact bounds), the current active selection (if any) or the full set of
+ * canvas objects to a PNG Blob.
  * When exporting the full canvas we tightly crop to the combined bounding box of all selectable objects
  * (rather than the entire viewport) for a cleaner result.
  */
 export const exportActiveOrCanvasToPNGBlob = async (canvas: fabric.Canvas): Promise<Blob> => {
     const active = canvas.getActiveObject();
+    if (isFrame(active)) {
+        return exportFrameToPNGBlob(canvas, active);
+    }
     if (active) {
         return exportSelectionToPNGBlob(active);
     }
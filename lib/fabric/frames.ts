@@ -0,0 +1,173 @@
+import * as fabric from "fabric";
+import { commandManager, ensureObjectId, recordAddObjects, recordReorder } from "@/lib/history/commandManager";
+import { isConnector } from "@/lib/fabric/connectors";
+
+// Frames (artboards): named, fixed-size, axis aligned containers. Frames stay flat canvas objects; their children are
+// derived, not stored: every object above a frame in the stack whose center lies inside it (topmost frame wins).
+// Children move with their frame, are clipped to it when `clipContent` is on, and are exported with it.
+export const FRAME_DEFAULTS = { width: 800, height: 600, fill: '#ffffff' } as const;
+
+const LABEL_COLOR = '#64748b';
+const OUTLINE_COLOR = '#94a3b8';
+
+export class Frame extends fabric.Rect {
+    static type = 'Frame';
+    declare name: string;
+    declare clipContent: boolean;
+
+    // Resizing changes width / height (see `bakeFrameScale`), never the content; the name label is drawn outside
+    // the box so the object is not cached
+    constructor(options?: Partial<fabric.RectProps> & { name?: string; clipContent?: boolean }) {
+        super({ strokeWidth: 0, lockRotation: true, lockSkewingX: true, lockSkewingY: true, objectCaching: false, ...options });
+        this.name ??= 'Frame';
+        this.clipContent ??= true;
+        this.setControlsVisibility({ mtr: false });
+    }
+
+    _render(ctx: CanvasRenderingContext2D) {
+        super._render(ctx);
+        // Editor chrome (name, outline of a transparent frame) only on the interactive canvas, never in exports
+        if (!(this.canvas instanceof fabric.Canvas)) return;
+        const zoom = this.canvas.getZoom();
+        const sx = this.scaleX * zoom, sy = this.scaleY * zoom;
+        const x = -this.width / 2, y = -this.height / 2;
+        ctx.save();
+        if (!this.fill) {
+            ctx.strokeStyle = OUTLINE_COLOR;
+            ctx.lineWidth = 1 / Math.max(sx, sy);
+            ctx.strokeRect(x, y, this.width, this.height);
+        }
+        // Constant on-screen size whatever the zoom / resize in progress
+        ctx.translate(x, y);
+        ctx.scale(1 / sx, 1 / sy);
+        ctx.fillStyle = LABEL_COLOR;
+        ctx.font = '500 12px Inter, system-ui, sans-serif';
+        ctx.textBaseline = 'bottom';
+        ctx.fillText(this.name, 0, -4);
+        ctx.restore();
+    }
+
+    toObject(propertiesToInclude: any[] = []): any {
+        return super.toObject([...propertiesToInclude, 'name', 'clipContent']);
+    }
+}
+
+fabric.classRegistry.setClass(Frame);
+
+export const isFrame = (obj: fabric.Object | undefined | null): obj is Frame => obj instanceof Frame;
+
+// Scene center (also right for members of an active selection)
+const sceneCenter = (obj: fabric.Object) => fabric.util.transformPoint({ x: 0, y: 0 }, obj.calcTransformMatrix());
+
+const contains = (frame: Frame, p: fabric.XY) => {
+    const box = frame.getBoundingRect();
+    return p.x >= box.left && p.x <= box.left + box.width && p.y >= box.top && p.y <= box.top + box.height;
+};
+
+// Frames and connectors are never children (connectors follow the objects they are attached to)
+const canBeChild = (obj: fabric.Object) => !isFrame(obj) && !isConnector(obj);
+
+/** The frame `objects[index]` belongs to: the topmost frame below it in the stack containing its center. */
+const ownerAt = (objects: fabric.Object[], index: number, frames: number[]): Frame | null => {
+    const obj = objects[index];
+    if (!canBeChild(obj)) return null;
+    let center: fabric.Point | null = null;
+    for (let i = frames.length - 1; i >= 0; i--) {
+        if (frames[i] >= index) continue;
+        center ??= sceneCenter(obj);
+        const frame = objects[frames[i]] as Frame;
+        if (contains(frame, center)) return frame;
+    }
+    return null;
+};
+
+const frameIndices = (objects: fabric.Object[]) => objects.reduce<number[]>((out, o, i) => (isFrame(o) ? [...out, i] : out), []);
+
+/** Children of `frame`, bottom to top. */
+export const frameChildren = (canvas: fabric.Canvas, frame: Frame): fabric.Object[] => {
+    const objects = canvas.getObjects();
+    const frames = frameIndices(objects);
+    const start = objects.indexOf(frame);
+    if (start < 0) return [];
+    return objects.filter((_, i) => i > start && ownerAt(objects, i, frames) === frame);
+};
+
+/** What a frame export shows, bottom to top: its children plus the frames nested in it and their content. */
+export const frameContents = (canvas: fabric.Canvas, frame: Frame): fabric.Object[] => {
+    const objects = canvas.getObjects();
+    const frames = frameIndices(objects);
+    const start = objects.indexOf(frame);
+    if (start < 0) return [];
+    const inside = new Set<fabric.Object>([frame]);
+    return objects.filter((o, i) => {
+        if (i <= start) return false;
+        if (isFrame(o)) {
+            if (!contains(frame, sceneCenter(o))) return false;
+            inside.add(o);
+            return true;
+        }
+        const owner = ownerAt(objects, i, frames);
+        return !!owner && inside.has(owner);
+    });
+};
+
+/** Frame children not already part of `objects` (e.g. the rest of an active selection being dragged). */
+export const childrenOfFrames = (canvas: fabric.Canvas, objects: fabric.Object[]): fabric.Object[] => {
+    const children = new Set<fabric.Object>();
+    objects.filter(isFrame).forEach(f => frameChildren(canvas, f).forEach(c => { if (!objects.includes(c)) children.add(c); }));
+    return [...children];
+};
+
+/** Turn a frame resize (scale) into a new width / height so the frame stays unscaled (no-op for other objects). */
+export const bakeFrameScale = (frame: fabric.Object) => {
+    if (!isFrame(frame) || (frame.scaleX === 1 && frame.scaleY === 1)) return;
+    frame.set({ width: frame.width * frame.scaleX, height: frame.height * frame.scaleY, scaleX: 1, scaleY: 1 });
+    frame.setCoords();
+};
+
+const nextFrameName = (canvas: fabric.Canvas) => {
+    const names = new Set(canvas.getObjects().filter(isFrame).map(f => f.name));
+    let n = 1;
+    while (names.has(`Frame ${n}`)) n++;
+    return `Frame ${n}`;
+};
+
+/**
+ * Record a frame just added on top of the stack: it gets the next free name and moves right below the lowest object
+ * it encloses, so what was drawn inside it before becomes its content. One undo step.
+ */
+export const recordAddFrame = async (canvas: fabric.Canvas, frame: Frame) => {
+    frame.set({ name: nextFrameName(canvas) });
+    await commandManager.transaction('Add frame', async () => {
+        await recordAddObjects(canvas, frame, 'Add frame');
+        const objects = canvas.getObjects();
+        const lowest = objects.findIndex(o => o !== frame && canBeChild(o) && contains(frame, sceneCenter(o)));
+        if (lowest < 0) return;
+        const before = objects.map(ensureObjectId);
+        canvas.moveObjectTo(frame, lowest);
+        await recordReorder(canvas, before, canvas.getObjects().map(ensureObjectId), 'Add frame');
+    });
+};
+
+/**
+ * Clip frame children to their frame while rendering (frames with `clipContent`). Installed once per interactive
+ * canvas and on the offscreen canvases of PNG exports; children keep their own clipPath untouched, so nothing of
+ * this reaches the document JSON.
+ */
+export const installFrameClipping = (canvas: fabric.StaticCanvas) => {
+    canvas._renderObjects = (ctx, objects) => {
+        // Ownership is decided over all frames: content of a non-clipping frame is never clipped by one below it
+        const frames = frameIndices(objects);
+        objects.forEach((obj, i) => {
+            const frame = frames.length ? ownerAt(objects, i, frames) : null;
+            if (!frame?.clipContent) { obj.render(ctx); return; }
+            const box = frame.getBoundingRect();
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(box.left, box.top, box.width, box.height);
+            ctx.clip();
+            obj.render(ctx);
+            ctx.restore();
+        });
+    };
+};
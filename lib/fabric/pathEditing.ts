@@ -0,0 +1,476 @@
+import * as fabric from "fabric";
+import { commandManager, recordModify, snapshotObjects } from "@/lib/history/commandManager";
+
+// Vector paths as editable nodes, shared by the pen tool (authoring) and node editing (double-click a path).
+// fabric.Path keeps its data simplified to absolute M / L / C / Q / Z; nodes hold the anchor and absolute handle
+// positions in the same (path) space, `null` handle = straight side.
+export interface PathNode { x: number; y: number; in: fabric.XY | null; out: fabric.XY | null; }
+export interface SubPath { nodes: PathNode[]; closed: boolean; }
+
+// Transform action name of node / handle drags (object:modified records those as 'Edit path')
+export const PATH_EDIT_ACTION = 'editPath';
+
+const samePoint = (a: fabric.XY, b: fabric.XY) => Math.abs(a.x - b.x) < 1e-6 && Math.abs(a.y - b.y) < 1e-6;
+
+/** Split simplified path data into subpaths of nodes (quadratic segments become the equivalent cubics). */
+export const pathToSubPaths = (data: fabric.TSimplePathData): SubPath[] => {
+    const subs: SubPath[] = [];
+    let current: SubPath | null = null;
+    let start: fabric.XY = { x: 0, y: 0 };
+    const last = () => current!.nodes[current!.nodes.length - 1];
+    const ensure = () => {
+        // Drawing after a Z without a new M continues from the closed subpath's start
+        if (!current || current.closed) { current = { nodes: [{ ...start, in: null, out: null }], closed: false }; subs.push(current); }
+        return current;
+    };
+    for (const cmd of data) {
+        switch (cmd[0]) {
+            case 'M':
+                start = { x: cmd[1], y: cmd[2] };
+                current = { nodes: [{ ...start, in: null, out: null }], closed: false };
+                subs.push(current);
+                break;
+            case 'L':
+                ensure().nodes.push({ x: cmd[1], y: cmd[2], in: null, out: null });
+                break;
+            case 'C':
+                ensure(); last().out = { x: cmd[1], y: cmd[2] };
+                current!.nodes.push({ x: cmd[5], y: cmd[6], in: { x: cmd[3], y: cmd[4] }, out: null });
+                break;
+            case 'Q': {
+                ensure(); const p0 = last(), q = { x: cmd[1], y: cmd[2] }, p = { x: cmd[3], y: cmd[4] };
+                p0.out = { x: p0.x + (2 / 3) * (q.x - p0.x), y: p0.y + (2 / 3) * (q.y - p0.y) };
+                current!.nodes.push({ ...p, in: { x: p.x + (2 / 3) * (q.x - p.x), y: p.y + (2 / 3) * (q.y - p.y) }, out: null });
+                break;
+            }
+            case 'Z':
+                if (!current || current.closed) break;
+                current.closed = true;
+                // An explicit segment back to the start doubles the first node: fold it into it
+                if (current.nodes.length > 1 && samePoint(last(), current.nodes[0])) current.nodes[0].in = current.nodes.pop()!.in;
+                break;
+        }
+    }
+    return subs.filter(s => s.nodes.length > 0);
+};
+
+const segment = (from: PathNode, to: PathNode): (string | number)[] =>
+    from.out || to.in
+        ? ['C', (from.out ?? from).x, (from.out ?? from).y, (to.in ?? to).x, (to.in ?? to).y, to.x, to.y]
+        : ['L', to.x, to.y];
+
+export const subPathsToPathData = (subs: SubPath[]): fabric.TSimplePathData => {
+    const data: (string | number)[][] = [];
+    subs.forEach(({ nodes, closed }) => {
+        if (!nodes.length) return;
+        data.push(['M', nodes[0].x, nodes[0].y]);
+        nodes.slice(1).forEach((node, i) => data.push(segment(nodes[i], node)));
+        if (closed && nodes.length > 1) {
+            const [first, lastNode] = [nodes[0], nodes[nodes.length - 1]];
+            if (lastNode.out || first.in) data.push(segment(lastNode, first));
+            data.push(['Z']);
+        }
+    });
+    return data as fabric.TSimplePathData;
+};
+
+// Both handles present and pointing in opposite directions
+const isSmooth = (node: PathNode) => {
+    if (!node.in || !node.out) return false;
+    const a = { x: node.in.x - node.x, y: node.in.y - node.y }, b = { x: node.out.x - node.x, y: node.out.y - node.y };
+    const la = Math.hypot(a.x, a.y), lb = Math.hypot(b.x, b.y);
+    if (!la || !lb) return false;
+    return Math.abs(a.x * b.y - a.y * b.x) / (la * lb) < 0.02 && a.x * b.x + a.y * b.y < 0;
+};
+
+const cubicAt = (p0: fabric.XY, p1: fabric.XY, p2: fabric.XY, p3: fabric.XY, t: number): fabric.XY => {
+    const u = 1 - t;
+    return {
+        x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+        y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+    };
+};
+
+const lerp = (a: fabric.XY, b: fabric.XY, t: number): fabric.XY => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+// Matrix from path space to the viewport (screen) and its inverse from scene space back to path space
+const pathToScreen = (path: fabric.Path) =>
+    fabric.util.multiplyTransformMatrices(path.canvas!.viewportTransform, fabric.util.multiplyTransformMatrices(path.calcTransformMatrix(), [1, 0, 0, 1, -path.pathOffset.x, -path.pathOffset.y]));
+const sceneToPath = (path: fabric.Path) =>
+    fabric.util.multiplyTransformMatrices([1, 0, 0, 1, path.pathOffset.x, path.pathOffset.y], fabric.util.invertTransform(path.calcTransformMatrix()));
+
+type NodeRef = { s: number; i: number };
+type ControlPart = 'anchor' | 'in' | 'out';
+
+const HANDLE_COLOR = '#3b82f6';
+
+// What the editing bar shows (null = not editing)
+export interface PathEditState {
+    node: { smooth: boolean } | null; // selected node
+    segment: boolean;                 // a segment is selected
+}
+
+type SegmentHit = NodeRef & { t: number; d: number };
+
+/**
+ * Node editing of a single path: anchors and Bezier handles become fabric controls of the path. Clicking the outline
+ * selects a segment. Drags are recorded through object:modified (see PATH_EDIT_ACTION), structural edits
+ * (add / delete / convert) via recordModify here, followed by `onEdit` (the caller marks the document dirty).
+ */
+export class PathEditor {
+    readonly path: fabric.Path;
+    private readonly canvas: fabric.Canvas;
+    private subPaths: SubPath[];
+    private selected: NodeRef | null = null;
+    private selectedSegment: NodeRef | null = null; // segment from this node to the next one
+    private readonly saved: Pick<fabric.Path, 'controls' | 'hasBorders' | 'lockMovementX' | 'lockMovementY' | 'objectCaching'>;
+    private readonly unsubscribe: () => void;
+    private readonly onEdit: () => void;
+
+    constructor(canvas: fabric.Canvas, path: fabric.Path, onEdit: () => void) {
+        this.canvas = canvas;
+        this.path = path;
+        this.onEdit = onEdit;
+        this.subPaths = pathToSubPaths(path.path);
+        const { controls, hasBorders, lockMovementX, lockMovementY, objectCaching } = path;
+        this.saved = { controls, hasBorders, lockMovementX, lockMovementY, objectCaching };
+        // Nodes are what gets dragged while editing; no cache so the outline follows the pointer without re-rasterizing
+        path.set({ hasBorders: false, lockMovementX: true, lockMovementY: true, objectCaching: false });
+        this.buildControls();
+        // Undo / redo may rewrite (or remove) the path under the editor
+        const stopHistory = commandManager.subscribe(() => {
+            if (!canvas.getObjects().includes(path)) stopPathEditing();
+            else this.sync();
+        });
+        canvas.on('mouse:down', this.onMouseDown);
+        canvas.on('after:render', this.onAfterRender);
+        this.unsubscribe = () => {
+            stopHistory();
+            canvas.off('mouse:down', this.onMouseDown);
+            canvas.off('after:render', this.onAfterRender);
+        };
+        canvas.setActiveObject(path);
+        canvas.requestRenderAll();
+    }
+
+    exit() {
+        this.unsubscribe();
+        this.path.set(this.saved);
+        this.path.setCoords();
+        this.canvas.requestRenderAll();
+    }
+
+    get state(): PathEditState {
+        return { node: this.selected ? { smooth: isSmooth(this.node(this.selected)) } : null, segment: !!this.selectedSegment };
+    }
+
+    private select(node: NodeRef | null, segment: NodeRef | null = null) {
+        this.selected = node;
+        this.selectedSegment = segment;
+        this.canvas.requestRenderAll();
+        notify();
+    }
+
+    // Re-read the nodes when the path data changed outside the editor
+    private sync() {
+        const data = subPathsToPathData(this.subPaths);
+        if (JSON.stringify(data) === JSON.stringify(this.path.path)) return;
+        this.subPaths = pathToSubPaths(this.path.path);
+        this.buildControls();
+        this.select(
+            this.selected && this.subPaths[this.selected.s]?.nodes[this.selected.i] ? this.selected : null,
+            this.selectedSegment && this.subPaths[this.selectedSegment.s]?.nodes[this.selectedSegment.i] ? this.selectedSegment : null,
+        );
+    }
+
+    private node({ s, i }: NodeRef) { return this.subPaths[s].nodes[i]; }
+
+    private nextIndex({ s, i }: NodeRef) {
+        const { nodes, closed } = this.subPaths[s];
+        return closed ? (i + 1) % nodes.length : i + 1;
+    }
+
+    private screenPoint(p: fabric.XY) { return new fabric.Point(p.x, p.y).transform(pathToScreen(this.path)); }
+
+    // Handles are shown for the selected node and the neighbouring sides of its segments
+    private handleVisible(ref: NodeRef, part: 'in' | 'out') {
+        const sel = this.selected; if (!sel || sel.s !== ref.s || !this.node(ref)[part]) return false;
+        const { nodes, closed } = this.subPaths[ref.s];
+        const n = nodes.length;
+        if (ref.i === sel.i) return true;
+        const prev = closed ? (sel.i - 1 + n) % n : sel.i - 1;
+        const next = closed ? (sel.i + 1) % n : sel.i + 1;
+        return (part === 'out' && ref.i === prev) || (part === 'in' && ref.i === next);
+    }
+
+    private buildControls() {
+        const controls: Record<string, fabric.Control> = {};
+        this.subPaths.forEach((sub, s) => sub.nodes.forEach((_, i) => {
+            const ref = { s, i };
+            (['in', 'out', 'anchor'] as ControlPart[]).forEach(part => {
+                controls[`${part}:${s}:${i}`] = this.createControl(ref, part);
+            });
+        }));
+        this.path.controls = controls;
+        this.path.setCoords();
+    }
+
+    private createControl(ref: NodeRef, part: ControlPart) {
+        const editor = this;
+        const point = () => { const node = editor.node(ref); return part === 'anchor' ? node : node[part] ?? node; };
+        return new fabric.Control({
+            actionName: PATH_EDIT_ACTION,
+            cursorStyle: part === 'anchor' ? 'move' : 'pointer',
+            sizeX: part === 'anchor' ? 10 : 9,
+            sizeY: part === 'anchor' ? 10 : 9,
+            getVisibility: () => part === 'anchor' || editor.handleVisible(ref, part),
+            positionHandler: () => editor.screenPoint(point()),
+            mouseDownHandler: (e) => {
+                if (part !== 'anchor') return false;
+                editor.select(ref);
+                if ((e as MouseEvent).altKey) editor.toggleSelectedNodeType(); // Alt+click converts corner <-> smooth
+                return false;
+            },
+            actionHandler: (_e, _t, x, y) => {
+                const p = new fabric.Point(x, y).transform(sceneToPath(editor.path));
+                editor.moveNodePart(ref, part, p);
+                return true;
+            },
+            render: (ctx, left, top) => {
+                ctx.save();
+                ctx.strokeStyle = HANDLE_COLOR;
+                ctx.lineWidth = 1;
+                if (part === 'anchor') {
+                    const selected = editor.selected?.s === ref.s && editor.selected.i === ref.i;
+                    ctx.fillStyle = selected ? HANDLE_COLOR : '#ffffff';
+                    // Smooth nodes are round, corners square
+                    ctx.beginPath();
+                    if (isSmooth(editor.node(ref))) ctx.arc(left, top, 4.5, 0, Math.PI * 2); else ctx.rect(left - 4, top - 4, 8, 8);
+                    ctx.fill(); ctx.stroke();
+                } else {
+                    const anchor = editor.screenPoint(editor.node(ref));
+                    ctx.beginPath(); ctx.moveTo(anchor.x, anchor.y); ctx.lineTo(left, top); ctx.stroke();
+                    ctx.fillStyle = '#ffffff';
+                    ctx.beginPath(); ctx.arc(left, top, 3.5, 0, Math.PI * 2); ctx.fill(); ctx.stroke();
+                }
+                ctx.restore();
+            },
+        });
+    }
+
+    // Clicking the outline (not a node / handle) selects the segment under the pointer, elsewhere clears the selection
+    private readonly onMouseDown = (opt: fabric.TPointerEventInfo) => {
+        if (opt.target !== this.path) return;
+        if (this.path.findControl(this.canvas.getViewportPoint(opt.e))) return;
+        const hit = this.segmentAt(this.canvas.getScenePoint(opt.e));
+        this.select(null, hit ? { s: hit.s, i: hit.i } : null);
+    };
+
+    // Selected segment drawn over the path
+    private readonly onAfterRender = ({ ctx }: { ctx: CanvasRenderingContext2D }) => {
+        const seg = this.selectedSegment; if (!seg) return;
+        const a = this.node(seg), b = this.subPaths[seg.s].nodes[this.nextIndex(seg)];
+        const [p0, p1, p2, p3] = [a, a.out ?? a, b.in ?? b, b].map(p => this.screenPoint(p));
+        ctx.save();
+        ctx.strokeStyle = HANDLE_COLOR;
+        ctx.lineWidth = 3;
+        ctx.beginPath(); ctx.moveTo(p0.x, p0.y); ctx.bezierCurveTo(p1.x, p1.y, p2.x, p2.y, p3.x, p3.y); ctx.stroke();
+        ctx.restore();
+    };
+
+    private moveNodePart(ref: NodeRef, part: ControlPart, p: fabric.XY) {
+        const node = this.node(ref);
+        if (part === 'anchor') {
+            const dx = p.x - node.x, dy = p.y - node.y;
+            node.x = p.x; node.y = p.y;
+            if (node.in) node.in = { x: node.in.x + dx, y: node.in.y + dy };
+            if (node.out) node.out = { x: node.out.x + dx, y: node.out.y + dy };
+        } else {
+            const other = part === 'in' ? 'out' : 'in';
+            const smooth = isSmooth(node);
+            node[part] = { x: p.x, y: p.y };
+            // Smooth nodes stay smooth: the opposite handle turns along, keeping its length
+            const opposite = node[other];
+            if (smooth && opposite) {
+                const len = Math.hypot(opposite.x - node.x, opposite.y - node.y);
+                const dir = { x: node.x - p.x, y: node.y - p.y };
+                const dLen = Math.hypot(dir.x, dir.y);
+                if (dLen) node[other] = { x: node.x + (dir.x / dLen) * len, y: node.y + (dir.y / dLen) * len };
+            }
+        }
+        this.apply();
+    }
+
+    // Write the nodes back into the path, keeping path space where it is on the canvas (the bounding box and
+    // pathOffset change with the geometry, left / top compensate)
+    private apply() {
+        const path = this.path;
+        const ref = new fabric.Point(0, 0);
+        const before = ref.subtract(path.pathOffset).transform(path.calcTransformMatrix());
+        path._setPath(subPathsToPathData(this.subPaths));
+        const after = ref.subtract(path.pathOffset).transform(path.calcTransformMatrix());
+        path.set({ left: path.left + before.x - after.x, top: path.top + before.y - after.y, dirty: true });
+        path.setCoords();
+        this.canvas.requestRenderAll();
+    }
+
+    // Structural edit: mutate the nodes, rebuild the controls, record one undo step
+    private edit(label: string, mutate: () => void) {
+        const before = snapshotObjects(this.path);
+        mutate();
+        this.buildControls();
+        this.apply();
+        recordModify(this.canvas, before, snapshotObjects(this.path), label);
+        this.onEdit();
+        notify();
+    }
+
+    // Closest point of the outline within a few screen pixels of `scenePoint`
+    private segmentAt(scenePoint: fabric.XY): SegmentHit | null {
+        const screen = new fabric.Point(scenePoint.x, scenePoint.y).transform(this.canvas.viewportTransform);
+        let best: SegmentHit | null = null;
+        this.subPaths.forEach(({ nodes, closed }, s) => {
+            const count = closed ? nodes.length : nodes.length - 1;
+            for (let i = 0; i < count; i++) {
+                const a = nodes[i], b = nodes[(i + 1) % nodes.length];
+                for (let step = 1; step < 32; step++) {
+                    const t = step / 32;
+                    const p = this.screenPoint(cubicAt(a, a.out ?? a, b.in ?? b, b, t));
+                    const d = Math.hypot(p.x - screen.x, p.y - screen.y);
+                    if (!best || d < best.d) best = { s, i, t, d };
+                }
+            }
+        });
+        const hit = best as SegmentHit | null;
+        return hit && hit.d <= Math.max(8, this.path.strokeWidth * this.canvas.getZoom()) ? hit : null;
+    }
+
+    /** Double-click while editing: on a node converts it, on the outline inserts a node. */
+    handleDoubleClick(scenePoint: fabric.XY) {
+        const screen = new fabric.Point(scenePoint.x, scenePoint.y).transform(this.canvas.viewportTransform);
+        const onNode = this.subPaths.flatMap((sub, s) => sub.nodes.map((_, i) => ({ s, i })))
+            .find(ref => { const p = this.screenPoint(this.node(ref)); return Math.hypot(p.x - screen.x, p.y - screen.y) <= 6; });
+        if (onNode) { this.select(onNode); this.toggleSelectedNodeType(); return; }
+        this.addNodeAt(scenePoint);
+    }
+
+    /** Insert a node on the segment under `scenePoint`. Returns false when there is none. */
+    addNodeAt(scenePoint: fabric.XY): boolean {
+        const hit = this.segmentAt(scenePoint); if (!hit) return false;
+        this.edit('Add node', () => {
+            const { nodes } = this.subPaths[hit.s];
+            const a = nodes[hit.i], b = nodes[(hit.i + 1) % nodes.length];
+            let inserted: PathNode;
+            if (a.out || b.in) {
+                // de Casteljau split keeps the curve's shape
+                const p1 = a.out ?? a, p2 = b.in ?? b;
+                const q0 = lerp(a, p1, hit.t), q1 = lerp(p1, p2, hit.t), q2 = lerp(p2, b, hit.t);
+                const r0 = lerp(q0, q1, hit.t), r1 = lerp(q1, q2, hit.t);
+                const m = lerp(r0, r1, hit.t);
+                if (a.out) a.out = q0;
+                if (b.in) b.in = q2;
+                inserted = { x: m.x, y: m.y, in: r0, out: r1 };
+            } else {
+                inserted = { ...lerp(a, b, hit.t), in: null, out: null };
+            }
+            nodes.splice(hit.i + 1, 0, inserted);
+            this.selected = { s: hit.s, i: hit.i + 1 };
+            this.selectedSegment = null;
+        });
+        return true;
+    }
+
+    /**
+     * Corner -> smooth: handles along the direction from the previous to the next node (a third of the distance to
+     * each); smooth -> corner: handles retracted.
+     */
+    toggleSelectedNodeType() {
+        const sel = this.selected; if (!sel) return;
+        const node = this.node(sel);
+        const smooth = isSmooth(node);
+        this.edit(smooth ? 'Corner node' : 'Smooth node', () => {
+            if (smooth) { node.in = node.out = null; return; }
+            const { nodes, closed } = this.subPaths[sel.s];
+            const n = nodes.length;
+            const prev = nodes[closed ? (sel.i - 1 + n) % n : sel.i - 1] ?? null;
+            const next = nodes[closed ? (sel.i + 1) % n : sel.i + 1] ?? null;
+            const from = prev ?? node, to = next ?? node;
+            const dir = { x: to.x - from.x, y: to.y - from.y };
+            const len = Math.hypot(dir.x, dir.y); if (!len) return;
+            const u = { x: dir.x / len, y: dir.y / len };
+            const inLen = prev ? Math.hypot(node.x - prev.x, node.y - prev.y) / 3 : 0;
+            const outLen = next ? Math.hypot(next.x - node.x, next.y - node.y) / 3 : 0;
+            node.in = inLen ? { x: node.x - u.x * inLen, y: node.y - u.y * inLen } : null;
+            node.out = outLen ? { x: node.x + u.x * outLen, y: node.y + u.y * outLen } : null;
+        });
+    }
+
+    /** Remove the selected node (a subpath keeps at least two nodes). */
+    deleteSelectedNode(): boolean {
+        const sel = this.selected; if (!sel) return false;
+        const { nodes, closed } = this.subPaths[sel.s];
+        if (nodes.length <= (closed ? 3 : 2)) return false;
+        this.edit('Delete node', () => { nodes.splice(sel.i, 1); this.selected = null; });
+        return true;
+    }
+
+    /**
+     * Remove the selected segment: a closed subpath opens there, an open one splits in two (single leftover nodes
+     * disappear). The last remaining segment of a path cannot be removed.
+     */
+    deleteSelectedSegment(): boolean {
+        const seg = this.selectedSegment; if (!seg) return false;
+        const { nodes, closed } = this.subPaths[seg.s];
+        const pieces: SubPath[] = closed
+            ? [{ nodes: [...nodes.slice(seg.i + 1), ...nodes.slice(0, seg.i + 1)], closed: false }]
+            : [{ nodes: nodes.slice(0, seg.i + 1), closed: false }, { nodes: nodes.slice(seg.i + 1), closed: false }];
+        const kept = pieces.filter(p => p.nodes.length > 1);
+        if (!kept.length && this.subPaths.length === 1) return false;
+        this.edit('Delete segment', () => {
+            const a = nodes[seg.i], b = nodes[(seg.i + 1) % nodes.length];
+            a.out = null; b.in = null; // cut ends lose the handles of the removed segment
+            this.subPaths.splice(seg.s, 1, ...kept);
+            this.selected = null;
+            this.selectedSegment = null;
+        });
+        return true;
+    }
+
+    /** Delete key: the selected segment, else the selected node. */
+    deleteSelection(): boolean {
+        return this.selectedSegment ? this.deleteSelectedSegment() : this.deleteSelectedNode();
+    }
+}
+
+let activeEditor: PathEditor | null = null;
+const listeners = new Set<() => void>();
+let editState: PathEditState | null = null;
+
+const notify = () => {
+    editState = activeEditor?.state ?? null;
+    listeners.forEach(l => l());
+};
+
+/** Subscribe to node editing state changes (useSyncExternalStore compatible). Returns an unsubscribe fn. */
+export const subscribePathEditing = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+export const getPathEditState = () => editState;
+
+export const getPathEditor = () => activeEditor;
+
+/** Start node editing of `path`; `onEdit` runs after every structural edit it records. */
+export const startPathEditing = (canvas: fabric.Canvas, path: fabric.Path, onEdit: () => void) => {
+    activeEditor?.exit();
+    activeEditor = new PathEditor(canvas, path, onEdit);
+    notify();
+    return activeEditor;
+};
+
+export const stopPathEditing = () => {
+    const editor = activeEditor; if (!editor) return;
+    activeEditor = null;
+    editor.exit();
+    notify();
+};
@@ -0,0 +1,124 @@
+import * as fabric from "fabric";
+import { PathNode, subPathsToPathData } from "@/lib/fabric/pathEditing";
+
+// Pen tool: click places corner anchors, click-drag pulls out symmetric Bezier handles, clicking the first anchor
+// closes the shape. The path under construction is only drawn on the top canvas; finishing turns it into a fabric.Path.
+export const PEN_STYLE = { stroke: '#0f172a', strokeWidth: 2, closedFill: '#bfdbfe' } as const;
+
+const CLOSE_DISTANCE = 8; // screen px around the first anchor that close the path
+const PREVIEW_COLOR = '#3b82f6';
+
+export class PenSession {
+    private readonly canvas: fabric.Canvas;
+    private nodes: PathNode[] = [];
+    private dragging = false;
+    private hover: fabric.Point | null = null;
+    private readonly onRender = () => this.renderOverlay();
+
+    constructor(canvas: fabric.Canvas) {
+        this.canvas = canvas;
+        canvas.on('after:render', this.onRender);
+    }
+
+    get empty() { return this.nodes.length === 0; }
+
+    private nearFirst(p: fabric.XY) {
+        const first = this.nodes[0];
+        return !!first && this.nodes.length > 1 && Math.hypot(p.x - first.x, p.y - first.y) * this.canvas.getZoom() <= CLOSE_DISTANCE;
+    }
+
+    /** Returns the finished path when this click closed the shape. */
+    pointerDown(p: fabric.Point): fabric.Path | null {
+        if (this.nearFirst(p)) return this.finish(true);
+        this.nodes.push({ x: p.x, y: p.y, in: null, out: null });
+        this.dragging = true;
+        this.canvas.requestRenderAll();
+        return null;
+    }
+
+    pointerMove(p: fabric.Point) {
+        this.hover = p;
+        const node = this.nodes[this.nodes.length - 1];
+        if (this.dragging && node) {
+            // Below a couple of pixels it is a click (corner), not a drag
+            if (Math.hypot(p.x - node.x, p.y - node.y) * this.canvas.getZoom() > 2) {
+                node.out = { x: p.x, y: p.y };
+                node.in = { x: 2 * node.x - p.x, y: 2 * node.y - p.y };
+            } else { node.in = node.out = null; }
+        }
+        this.canvas.requestRenderAll();
+    }
+
+    pointerUp() { this.dragging = false; }
+
+    /** Drop the last anchor (Backspace while drawing). */
+    undoLastNode() {
+        this.nodes.pop();
+        this.canvas.requestRenderAll();
+    }
+
+    /**
+     * End the current path: a fabric.Path (not yet added to the canvas) when at least two anchors were placed.
+     * A double-click places its own anchor(s) first; those coincide with the previous one and are dropped.
+     */
+    finish(closed = false): fabric.Path | null {
+        const nodes = this.nodes.filter((n, i, all) => i === 0 || Math.hypot(n.x - all[i - 1].x, n.y - all[i - 1].y) * this.canvas.getZoom() > 1);
+        this.nodes = [];
+        this.dragging = false;
+        if (!this.canvas.disposed) this.canvas.requestRenderAll();
+        if (nodes.length < 2) return null;
+        return new fabric.Path(subPathsToPathData([{ nodes, closed }]), {
+            fill: closed ? PEN_STYLE.closedFill : null,
+            stroke: PEN_STYLE.stroke,
+            strokeWidth: PEN_STYLE.strokeWidth,
+            strokeLineJoin: 'round',
+            strokeLineCap: 'round',
+        });
+    }
+
+    dispose() {
+        this.canvas.off('after:render', this.onRender);
+        if (!this.canvas.disposed) this.canvas.clearContext(this.canvas.contextTop);
+    }
+
+    // Path so far + rubber band to the pointer + anchors / handles of the last node, in screen space on the top canvas
+    private renderOverlay() {
+        const { canvas } = this;
+        const ctx = canvas.contextTop;
+        canvas.clearContext(ctx);
+        if (!this.nodes.length) return;
+        const vpt = canvas.viewportTransform;
+        const toScreen = (p: fabric.XY) => new fabric.Point(p.x, p.y).transform(vpt);
+        ctx.save();
+        ctx.lineWidth = 1.5;
+        ctx.strokeStyle = PREVIEW_COLOR;
+        ctx.beginPath();
+        const segments = this.hover && !this.dragging ? [...this.nodes, { x: this.hover.x, y: this.hover.y, in: null, out: null }] : this.nodes;
+        segments.forEach((node, i) => {
+            const p = toScreen(node);
+            if (i === 0) { ctx.moveTo(p.x, p.y); return; }
+            const prev = segments[i - 1];
+            if (!prev.out && !node.in) { ctx.lineTo(p.x, p.y); return; }
+            const c1 = toScreen(prev.out ?? prev), c2 = toScreen(node.in ?? node);
+            ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, p.x, p.y);
+        });
+        ctx.stroke();
+        const last = this.nodes[this.nodes.length - 1];
+        [last.in, last.out].forEach(h => {
+            if (!h) return;
+            const a = toScreen(last), p = toScreen(h);
+            ctx.beginPath(); ctx.moveTo(a.x, a.y); ctx.lineTo(p.x, p.y); ctx.stroke();
+            ctx.fillStyle = '#ffffff';
+            ctx.beginPath(); ctx.arc(p.x, p.y, 3.5, 0, Math.PI * 2); ctx.fill(); ctx.stroke();
+        });
+        this.nodes.forEach((node, i) => {
+            const p = toScreen(node);
+            // First anchor grows while hovering it with a closable path
+            const size = i === 0 && this.hover && this.nearFirst(this.hover) ? 12 : 8;
+            ctx.fillStyle = i === this.nodes.length - 1 ? PREVIEW_COLOR : '#ffffff';
+            ctx.fillRect(p.x - size / 2, p.y - size / 2, size, size);
+            ctx.strokeRect(p.x - size / 2, p.y - size / 2, size, size);
+        });
+        ctx.restore();
+    }
+}
@@ -0,0 +1,90 @@
+import * as fabric from "fabric";
+
+// Parametric polygon shapes: plain fabric Polygons whose points are regenerated from `sides` (and `innerRatio`
+// for stars) whenever those change, keeping the current size and center. Registered with the class registry so
+// documents / history snapshots enliven them back with their parameters.
+export const POLYGON_SIDES_RANGE = { min: 3, max: 12 } as const;
+export const STAR_POINTS_RANGE = { min: 3, max: 24 } as const;
+export const STAR_INNER_RATIO_RANGE = { min: 0.1, max: 0.95 } as const;
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+/**
+ * Vertices of a regular polygon (or star when `innerRatio` is given: `sides` outer points alternating with inner
+ * ones at `innerRatio` of the radius), first vertex pointing up, scaled to fill a `width` x `height` box.
+ */
+export const regularPolygonPoints = (sides: number, width: number, height: number, innerRatio?: number): fabric.XY[] => {
+    const count = innerRatio != null ? sides * 2 : sides;
+    const unit = Array.from({ length: count }, (_, i) => {
+        const angle = -Math.PI / 2 + (i * 2 * Math.PI) / count;
+        const r = innerRatio != null && i % 2 === 1 ? innerRatio : 1;
+        return { x: Math.cos(angle) * r, y: Math.sin(angle) * r };
+    });
+    // Odd side counts do not span the unit circle vertically: normalize to the box
+    const xs = unit.map(p => p.x), ys = unit.map(p => p.y);
+    const minX = Math.min(...xs), minY = Math.min(...ys);
+    const spanX = Math.max(...xs) - minX || 1, spanY = Math.max(...ys) - minY || 1;
+    return unit.map(p => ({ x: ((p.x - minX) / spanX) * width, y: ((p.y - minY) / spanY) * height }));
+};
+
+export class RegularPolygon extends fabric.Polygon {
+    static type = 'RegularPolygon';
+    static defaultSides = 6;
+    declare sides: number;
+
+    constructor(points?: fabric.XY[], options?: Partial<fabric.FabricObjectProps> & { sides?: number; innerRatio?: number }) {
+        super(points, options);
+        this.sides ??= (this.constructor as typeof RegularPolygon).defaultSides;
+    }
+
+    protected shapePoints(width: number, height: number): fabric.XY[] {
+        return regularPolygonPoints(clamp(Math.round(this.sides), POLYGON_SIDES_RANGE.min, POLYGON_SIDES_RANGE.max), width, height);
+    }
+
+    /** Regenerate the points for a `width` x `height` (unscaled) box; position is left to the caller. */
+    resizeShape(width: number, height: number) {
+        this.points = this.shapePoints(Math.max(1, width), Math.max(1, height));
+        this.setBoundingBox();
+        this.dirty = true;
+    }
+
+    // Parameter edits rebuild the outline in place (same size, same center); no points yet = still constructing
+    _set(key: string, value: any) {
+        const rebuild = !!this.points?.length && (key === 'sides' || key === 'innerRatio') && (this as any)[key] !== value;
+        super._set(key, value);
+        if (rebuild) {
+            const center = this.getCenterPoint();
+            this.resizeShape(this.width, this.height);
+            this.setPositionByOrigin(center, 'center', 'center');
+            this.setCoords();
+        }
+        return this;
+    }
+
+    toObject(propertiesToInclude: any[] = []): any {
+        return super.toObject([...propertiesToInclude, 'sides']);
+    }
+}
+
+export class Star extends RegularPolygon {
+    static type = 'Star';
+    static defaultSides = 5;
+    declare innerRatio: number;
+
+    constructor(points?: fabric.XY[], options?: Partial<fabric.FabricObjectProps> & { sides?: number; innerRatio?: number }) {
+        super(points, options);
+        this.innerRatio ??= 0.5;
+    }
+
+    protected shapePoints(width: number, height: number): fabric.XY[] {
+        const points = clamp(Math.round(this.sides), STAR_POINTS_RANGE.min, STAR_POINTS_RANGE.max);
+        return regularPolygonPoints(points, width, height, clamp(this.innerRatio, STAR_INNER_RATIO_RANGE.min, STAR_INNER_RATIO_RANGE.max));
+    }
+
+    toObject(propertiesToInclude: any[] = []): any {
+        return super.toObject([...propertiesToInclude, 'innerRatio']);
+    }
+}
+
+fabric.classRegistry.setClass(RegularPolygon);
+fabric.classRegistry.setClass(Star);
@@ -22,12 +22,3 @@ export const extractUnifiedFill = (target: fabric.Object | fabric.ActiveSelectio
     }
     return supportsFill(target) ? ((target as any).fill ?? null) : null;
 };
-
-export const applyFillToObjectOrSelection = (target: fabric.Object | fabric.ActiveSelection, color: string) => {
-    const assign = (o: fabric.Object) => { if (supportsFill(o)) { (o as any).set?.({ fill: color }); o.setCoords(); } };
-    if (target.isType('activeselection')) {
-        (target as fabric.ActiveSelection).forEachObject(assign);
-    } else {
-        assign(target as fabric.Object);
-    }
-};
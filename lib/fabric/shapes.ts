@@ -1,6 +1,9 @@
 import * as fabric from "fabric";
+import { regularPolygonPoints, RegularPolygon, Star } from "@/lib/fabric/polygons";
+import { Arrow, ArrowHead } from "@/lib/fabric/arrows";
+import { Frame, FRAME_DEFAULTS } from "@/lib/fabric/frames";
 
-export type ShapeKind = "rect" | "ellipse" | "line";
+export type ShapeKind = "rect" | "ellipse" | "line" | "arrow" | "polygon" | "star" | "frame";
 
 export interface ShapeStyle {
     fill?: string;
@@ -9,6 +12,10 @@ export interface ShapeStyle {
     rx?: number; // rectangle corner radius
     ry?: number;
     opacity?: number;
+    sides?: number; // polygon side count / star point count
+    innerRatio?: number; // star inner radius relative to the outer one
+    startHead?: ArrowHead; // arrow end decorations
+    endHead?: ArrowHead;
 }
 
 export interface ShapeCreateContext {
@@ -23,6 +30,18 @@ const DEFAULT_STYLES: Record<ShapeKind, ShapeStyle> = {
     rect: { fill: "#2563eb", rx: 4, ry: 4 },
     ellipse: { fill: "#16a34a" },
     line: { stroke: "#0f172a", strokeWidth: 3 },
+    arrow: { stroke: "#0f172a", strokeWidth: 3, startHead: 'none', endHead: 'triangle' },
+    polygon: { fill: "#9333ea", sides: 6 },
+    star: { fill: "#f59e0b", sides: 5, innerRatio: 0.5 },
+    frame: { fill: FRAME_DEFAULTS.fill },
+};
+
+const createPolygonShape = (kind: 'polygon' | 'star', width: number, height: number, style: ShapeStyle): RegularPolygon => {
+    const { sides, innerRatio, ...rest } = style;
+    const options = { ...rest, sides, innerRatio };
+    return kind === 'star'
+        ? new Star(regularPolygonPoints(sides ?? 5, width, height, innerRatio ?? 0.5), options)
+        : new RegularPolygon(regularPolygonPoints(sides ?? 6, width, height), options);
 };
 
 export interface InsertOptions {
@@ -72,6 +91,27 @@ export const insertShape = (canvas: fabric.Canvas, kind: ShapeKind, opts: Insert
             originX: 'center',
             originY: 'center'
         });
+    } else if (kind === 'arrow') {
+        const length = style.width ?? 160;
+        // Horizontal, pointing right
+        obj = new Arrow([-length / 2, 0, length / 2, 0], {
+            stroke: style.stroke || '#0f172a',
+            strokeWidth: style.strokeWidth ?? 3,
+            opacity: style.opacity,
+            startHead: style.startHead,
+            endHead: style.endHead,
+        });
+    } else if (kind === 'polygon' || kind === 'star') {
+        const size = style.radius != null ? style.radius * 2 : 140;
+        const { fill, stroke, strokeWidth, opacity, sides, innerRatio } = style;
+        obj = createPolygonShape(kind, style.width ?? size, style.height ?? size, { fill, stroke, strokeWidth, opacity, sides, innerRatio });
+    } else if (kind === 'frame') {
+        obj = new Frame({
+            width: style.width ?? FRAME_DEFAULTS.width,
+            height: style.height ?? FRAME_DEFAULTS.height,
+            fill: style.fill,
+            opacity: style.opacity,
+        });
     } else {
         throw new Error(`Unsupported shape kind: ${kind}`);
     }
@@ -84,6 +124,27 @@ export const insertShape = (canvas: fabric.Canvas, kind: ShapeKind, opts: Insert
     return obj;
 };
 
+// Box spanned by a creation drag: Shift = square, Alt = origin is the center (rect, frame, ellipse & polygon kinds)
+const dragBox = (origin: fabric.Point, dx: number, dy: number, maintainAspect: boolean, fromCenter: boolean, minSize: number) => {
+    let left: number; let top: number; let width: number; let height: number;
+    if (fromCenter) {
+        width = Math.abs(dx) * 2; height = Math.abs(dy) * 2;
+        if (maintainAspect) { const size = Math.max(width, height); width = size; height = size; }
+        left = origin.x - width / 2; top = origin.y - height / 2;
+    } else {
+        width = dx; height = dy; left = origin.x; top = origin.y;
+        if (width < 0) { left += width; width = Math.abs(width); }
+        if (height < 0) { top += height; height = Math.abs(height); }
+        if (maintainAspect) {
+            const size = Math.max(width, height);
+            if (dx < 0) left = origin.x - size; else left = origin.x;
+            if (dy < 0) top = origin.y - size; else top = origin.y;
+            width = size; height = size;
+        }
+    }
+    return { left, top, width: Math.max(minSize, width), height: Math.max(minSize, height) };
+};
+
 // Lazy creation during drag: update dimensions based on current pointer.
 // Returns updated context (mutated in place) and underlying fabric object if present.
 export const updateDraggingShape = (
@@ -108,6 +169,9 @@ export const updateDraggingShape = (
             if (kind === 'rect') return new fabric.Rect({ width: 1, height: 1, ...DEFAULT_STYLES.rect, originX: 'left', originY: 'top' });
             if (kind === 'ellipse') return new fabric.Ellipse({ rx: 1, ry: 1, ...DEFAULT_STYLES.ellipse, originX: 'left', originY: 'top' });
             if (kind === 'line') return new fabric.Line([origin.x, origin.y, origin.x, origin.y], { ...DEFAULT_STYLES.line, stroke: DEFAULT_STYLES.line.stroke || '#0f172a', strokeWidth: DEFAULT_STYLES.line.strokeWidth ?? 3 });
+            if (kind === 'arrow') return new Arrow([origin.x, origin.y, origin.x, origin.y], { ...DEFAULT_STYLES.arrow });
+            if (kind === 'polygon' || kind === 'star') return createPolygonShape(kind, 1, 1, { ...DEFAULT_STYLES[kind] });
+            if (kind === 'frame') return new Frame({ width: 1, height: 1, ...DEFAULT_STYLES.frame, originX: 'left', originY: 'top' });
             throw new Error('Unsupported shape kind');
         })();
         canvas.add(ctx.object);
@@ -115,48 +179,21 @@ export const updateDraggingShape = (
     }
     if (!ctx.object) return null;
 
-    if (kind === 'rect') {
-        let left: number; let top: number; let width: number; let height: number;
-        if (fromCenter) {
-            width = Math.abs(dx) * 2; height = Math.abs(dy) * 2;
-            if (maintainAspect) { const size = Math.max(width, height); width = size; height = size; }
-            left = origin.x - width / 2; top = origin.y - height / 2;
-        } else {
-            width = dx; height = dy; left = origin.x; top = origin.y;
-            if (width < 0) { left += width; width = Math.abs(width); }
-            if (height < 0) { top += height; height = Math.abs(height); }
-            if (maintainAspect) {
-                const size = Math.max(width, height);
-                if (dx < 0) left = origin.x - size; else left = origin.x;
-                if (dy < 0) top = origin.y - size; else top = origin.y;
-                width = size; height = size;
-            }
-        }
-        width = Math.max(minSize, width); height = Math.max(minSize, height);
+    if (kind === 'rect' || kind === 'frame') {
+        const { left, top, width, height } = dragBox(origin, dx, dy, maintainAspect, fromCenter, minSize);
         ctx.object.set({ left, top, width, height });
         ctx.object.setCoords();
     } else if (kind === 'ellipse') {
-        let w: number; let h: number; let left: number; let top: number;
-        if (fromCenter) {
-            w = Math.abs(dx) * 2; h = Math.abs(dy) * 2;
-            if (maintainAspect) { const size = Math.max(w, h); w = size; h = size; }
-            left = origin.x - w / 2; top = origin.y - h / 2;
-        } else {
-            w = dx; h = dy; left = origin.x; top = origin.y;
-            if (w < 0) { left += w; w = Math.abs(w); }
-            if (h < 0) { top += h; h = Math.abs(h); }
-            if (maintainAspect) {
-                const size = Math.max(w, h);
-                if (dx < 0) left = origin.x - size; else left = origin.x;
-                if (dy < 0) top = origin.y - size; else top = origin.y;
-                w = size; h = size;
-            }
-        }
-        w = Math.max(minSize, w); h = Math.max(minSize, h);
+        const { left, top, width, height } = dragBox(origin, dx, dy, maintainAspect, fromCenter, minSize);
         ctx.object.set({ left, top });
-        ctx.object.set({ rx: w / 2, ry: h / 2 });
+        ctx.object.set({ rx: width / 2, ry: height / 2 });
         ctx.object.setCoords();
-    } else if (kind === 'line') {
+    } else if (kind === 'polygon' || kind === 'star') {
+        const { left, top, width, height } = dragBox(origin, dx, dy, maintainAspect, fromCenter, minSize);
+        (ctx.object as RegularPolygon).resizeShape(width, height);
+        ctx.object.set({ left, top });
+        ctx.object.setCoords();
+    } else if (kind === 'line' || kind === 'arrow') {
         let x2 = origin.x + dx; let y2 = origin.y + dy;
         if (maintainAspect) {
             const ang = Math.atan2(dy, dx);
@@ -26,6 +26,21 @@ export const getCanvasCenterWorld = (canvas: fabric.Canvas) => {
     return invertPointThroughViewport(canvas, screenCenter);
 };
 
+// Fit all objects into the viewport (padding in screen px). An empty canvas resets to the identity transform.
+export const zoomToFitObjects = (canvas: fabric.Canvas, opts?: { padding?: number; maxZoom?: number }) => {
+    const padding = opts?.padding ?? 48;
+    const maxZoom = opts?.maxZoom ?? 1;
+    const objects = canvas.getObjects().filter(o => o.visible !== false);
+    if (!objects.length) { canvas.setViewportTransform([1, 0, 0, 1, 0, 0]); return; }
+    const bounds = fabric.util.makeBoundingBoxFromPoints(objects.flatMap(o => o.getCoords()));
+    const availW = Math.max(1, canvas.getWidth() - padding * 2);
+    const availH = Math.max(1, canvas.getHeight() - padding * 2);
+    const zoom = Math.min(maxZoom, availW / Math.max(1, bounds.width), availH / Math.max(1, bounds.height));
+    const cx = bounds.left + bounds.width / 2;
+    const cy = bounds.top + bounds.height / 2;
+    canvas.setViewportTransform([zoom, 0, 0, zoom, canvas.getWidth() / 2 - cx * zoom, canvas.getHeight() / 2 - cy * zoom]);
+};
+
 // Unified helper: find world-space center of current viewport & center object/selection there
 export const centerInViewport = (canvas: fabric.Canvas, obj: fabric.Object) => {
     const center = getCanvasCenterWorld(canvas);
@@ -18,9 +18,66 @@ export const ensureObjectId = (obj: fabric.Object): string => {
 
 export interface SerializedState { qcId: string; json: any; }
 
+// ---- Memory accounting ----
+// Heavy strings (image src data, long path data) are shared: commands use the copy the history already holds, so
+// repeated snapshots of the same object keep one copy. A tree is charged a heavy value once, however many of its
+// commands hold it; the shared copy is dropped when the last tree holding it lets go of it.
+const HEAVY_VALUE_LENGTH = 1024;
+const REF_BYTES = 8;
+const sharedValues = new Map<string, { value: string; trees: number }>();
+
+const acquireShared = (value: string) => {
+    const shared = sharedValues.get(value);
+    if (shared) shared.trees++; else sharedValues.set(value, { value, trees: 1 });
+};
+const releaseShared = (value: string) => {
+    const shared = sharedValues.get(value); if (!shared) return;
+    if (--shared.trees <= 0) sharedValues.delete(value);
+};
+
+const shareHeavyValues = (value: any): any => {
+    if (Array.isArray(value)) { value.forEach((v, i) => { value[i] = shareHeavyValues(v); }); return value; }
+    if (typeof value === 'string' && value.length >= HEAVY_VALUE_LENGTH) return sharedValues.get(value)?.value ?? value;
+    if (value && typeof value === 'object') Object.keys(value).forEach(k => { value[k] = shareHeavyValues(value[k]); });
+    return value;
+};
+
+// Rough retained size (UTF-16 strings, 8 byte numbers / refs); heavy strings count as a reference and are collected
+// into `heavy` (charged per tree, see HistoryManager.hold)
+const estimateBytes = (value: unknown, heavy: Set<string>): number => {
+    if (typeof value === 'string') {
+        if (value.length < HEAVY_VALUE_LENGTH) return value.length * 2;
+        heavy.add(value);
+        return REF_BYTES;
+    }
+    if (typeof value === 'number' || typeof value === 'boolean' || value == null) return REF_BYTES;
+    if (Array.isArray(value)) return value.reduce((n: number, v) => n + estimateBytes(v, heavy), REF_BYTES);
+    if (typeof value === 'object') return Object.entries(value).reduce((n, [k, v]) => n + k.length * 2 + estimateBytes(v, heavy), REF_BYTES);
+    return REF_BYTES;
+};
+// Size and heavy values of command data (its heavy strings swapped for the shared copies first)
+const measureData = (data: CommandData): Pick<Command, 'size' | 'heavy'> => {
+    const heavy = new Set<string>();
+    const size = estimateBytes(shareHeavyValues(data), heavy);
+    return { size, heavy: [...heavy] };
+};
+
+// Transform props an active selection holds relative to itself
+const GROUP_LAYOUT_PROPS = ['angle', 'flipX', 'flipY', 'left', 'top', 'scaleX', 'scaleY', 'skewX', 'skewY'] as const;
+
+// Members of an active selection are serialized with the selection's transform applied (scene coordinates, as
+// `canvas.toObject` does), so before / after snapshots of a multi-selection transform differ and undo restores them
+const toSceneObject = (obj: fabric.Object) => {
+    const group = obj.group;
+    if (!(group instanceof fabric.ActiveSelection)) return obj.toObject?.() ?? {};
+    const original = Object.fromEntries(GROUP_LAYOUT_PROPS.map(k => [k, obj[k]]));
+    fabric.util.addTransformToObject(obj, group.calcOwnMatrix());
+    try { return obj.toObject(); } finally { obj.set(original); }
+};
+
 const serializeObject = (obj: fabric.Object): SerializedState => {
     const qcId = ensureObjectId(obj);
-    const json = obj.toObject?.() ?? {};
+    const json = toSceneObject(obj);
     (json as any).qcId = qcId; // embed for later enliven
     return { qcId, json };
 };
@@ -29,30 +86,62 @@ const serializeObjects = (objs: fabric.Object[]): SerializedState[] => objs.map(
 const findObjectById = (canvas: fabric.Canvas, id: string): fabric.Object | undefined =>
     canvas.getObjects().find(o => getId(o) === id);
 
-const applyStateToExisting = (canvas: fabric.Canvas, state: SerializedState) => {
+// Only the properties that differ between two snapshots of the same objects (compact modify commands)
+const IDENTITY_KEYS = ['type', 'version', 'qcId', 'objects'];
+const diffStates = (before: SerializedState[], after: SerializedState[]) => {
+    const prev: PropMutationState[] = [], next: PropMutationState[] = [];
+    after.forEach(st => {
+        const old = before.find(b => b.qcId === st.qcId)?.json ?? {};
+        const oldProps: Record<string, any> = {}, newProps: Record<string, any> = {};
+        new Set([...Object.keys(old), ...Object.keys(st.json)]).forEach(k => {
+            if (IDENTITY_KEYS.includes(k)) return;
+            const a = old[k], b = st.json[k];
+            if (a === b || JSON.stringify(a) === JSON.stringify(b)) return;
+            oldProps[k] = a; newProps[k] = b;
+        });
+        if (Object.keys(newProps).length) { prev.push({ qcId: st.qcId, props: oldProps }); next.push({ qcId: st.qcId, props: newProps }); }
+    });
+    return { prev, next };
+};
+
+const applyPropsToExisting = (canvas: fabric.Canvas, state: PropMutationState) => {
     const target = findObjectById(canvas, state.qcId);
-    if (!target) return false;
-    const json = { ...state.json };
-    delete (json as any).objects; // safety
-    Object.entries(json).forEach(([k, v]) => {
-        if (['type', 'version', 'qcId'].includes(k)) return;
+    if (!target) return; // object gone since (deleted on another branch): nothing to modify
+    Object.entries(state.props).forEach(([k, v]) => {
         (target as any)[k] = v; // fallback raw assign for props fabric.set may not cover
     });
+    // Path / polyline geometry: pathOffset is derived from the path data / points (not serialized) and the cache must be redrawn
+    if (('path' in state.props && target instanceof fabric.Path) || ('points' in state.props && target instanceof fabric.Polyline)) {
+        target.setBoundingBox();
+        target.dirty = true;
+    }
     target.setCoords();
-    return true;
 };
 
-const enlivenState = (canvas: fabric.Canvas, state: SerializedState): Promise<fabric.Object> => new Promise((resolve, reject) => {
-    try {
-        (fabric as any).util.enlivenObjects([state.json], (objs: fabric.Object[]) => {
-            const obj = objs[0];
-            if (!obj) { reject(new Error('Failed to enliven object')); return; }
-            setId(obj, state.qcId);
-            canvas.add(obj);
-            resolve(obj);
-        });
-    } catch (e) { reject(e); }
-});
+const enlivenState = async (canvas: fabric.Canvas, state: SerializedState): Promise<fabric.Object> => {
+    const [obj] = await fabric.util.enlivenObjects<fabric.Object>([state.json]);
+    if (!obj) throw new Error('Failed to enliven object');
+    setId(obj, state.qcId);
+    canvas.add(obj);
+    return obj;
+};
+
+export interface PropMutationState { qcId: string; props: Record<string, any>; }
+
+// Plain JSON description of what a command does (objects addressed by qcId, no object refs / closures),
+// so the history can be persisted and rebuilt against a freshly loaded canvas.
+export type CommandData =
+    | { kind: 'add' | 'remove'; states: SerializedState[] }
+    | { kind: 'modify' | 'props'; before: PropMutationState[]; after: PropMutationState[] }
+    | { kind: 'reorder'; before: string[]; after: string[] }
+    | { kind: 'group'; commands: SerializedCommand[] };
+
+export interface SerializedCommand {
+    id: string;
+    label: string;
+    stamp: number;
+    data: CommandData;
+}
 
 export interface Command {
     id: string;
@@ -60,34 +149,367 @@ export interface Command {
     stamp: number;
     execute: () => Promise<void> | void; // do action
     undo: () => Promise<void> | void;    // revert action
+    size?: number;                       // estimated retained bytes without the heavy values (history memory budget)
+    heavy?: string[];                    // heavy values the command holds (charged once per tree)
+    data?: CommandData;                  // serializable form (commands without it are not persisted)
+    coalesceKey?: string;                // follow-up edits with the same key can be merged into this step
+}
+
+// Consecutive edits sharing a coalesce key within this window become one undo step (e.g. color picker drags)
+const COALESCE_MS = 600;
+
+const toSerialized = ({ id, label, stamp, data }: Command): SerializedCommand | null => data ? { id, label, stamp, data } : null;
+
+// Read-only view of the history for UI (history panel, undo / redo buttons)
+export interface HistoryEntry { id: string; label: string; stamp: number; }
+// past / current / future = the active line (undo / redo path); branch = abandoned alternative reachable via jumpTo
+export type HistoryEntryStatus = 'past' | 'current' | 'future' | 'branch';
+export interface HistoryTreeEntry extends HistoryEntry {
+    status: HistoryEntryStatus;
+    depth: number; // branch nesting level (0 = active line)
+}
+export interface HistorySnapshot {
+    past: HistoryEntry[];   // applied commands, oldest first (last = current state)
+    future: HistoryEntry[]; // redo path, next redo first
+    tree: HistoryTreeEntry[]; // whole undo tree in display order (branches nested under the step they fork from)
+}
+
+// Undo tree node; the root is a sentinel (no command) standing for the initial state
+interface HistoryNode {
+    cmd: Command | null;
+    parent: HistoryNode | null;
+    children: HistoryNode[];   // oldest first
+    redoChild: HistoryNode | null; // branch redo follows (last visited / created)
 }
 
+// A whole undo tree detached from the manager (history of a document that is not active)
+export interface HistoryGroup { label: string; commands: Command[]; }
+export interface HistoryTree { root: HistoryNode; current: HistoryNode; nodes: Map<string, HistoryNode>; bytes: number; held: Map<string, number>; }
+
+const toEntry = ({ id, label, stamp }: Command): HistoryEntry => ({ id, label, stamp });
+const createRoot = (): HistoryNode => ({ cmd: null, parent: null, children: [], redoChild: null });
+
+/**
+ * Undo tree: a new command after undoing starts a sibling branch instead of discarding the redo path.
+ * `maxDepth` caps the node count and `maxBytes` the estimated command size across the whole tree
+ * (oldest abandoned leaves / oldest root steps go first).
+ */
 class HistoryManager {
-    private undoStack: Command[] = [];
-    private redoStack: Command[] = [];
+    private root: HistoryNode = createRoot();
+    private current: HistoryNode = this.root;
+    private nodes = new Map<string, HistoryNode>(); // command id -> node
     private maxDepth = 250;
+    private maxBytes = 32 * 1024 * 1024;
+    private bytes = 0;
+    private held = new Map<string, number>(); // heavy value -> number of commands in the tree holding it
+    // Open groups (innermost last): commands performed meanwhile are collected into one composite undo step
+    private groups: HistoryGroup[] = [];
+    private listeners = new Set<() => void>();
+    private recorders = new Set<(cmd: Command, replaced: boolean) => void>();
+    private snapshot: HistorySnapshot = { past: [], future: [], tree: [] };
+
+    /** Subscribe to history changes (useSyncExternalStore compatible). Returns an unsubscribe fn. */
+    subscribe = (listener: () => void) => {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    };
+    // Stable between changes so React can compare by reference
+    getSnapshot = () => this.snapshot;
+
+    /** Observe every step entering the history (`replaced` = merged into the previous step). Returns an unsubscribe fn. */
+    onRecord(recorder: (cmd: Command, replaced: boolean) => void) {
+        this.recorders.add(recorder);
+        return () => { this.recorders.delete(recorder); };
+    }
+
+    private pathToCurrent(): HistoryNode[] {
+        const path: HistoryNode[] = [];
+        for (let n: HistoryNode | null = this.current; n && n.cmd; n = n.parent) path.unshift(n);
+        return path;
+    }
+    private redoPath(): HistoryNode[] {
+        const path: HistoryNode[] = [];
+        for (let n = this.current.redoChild; n; n = n.redoChild) path.push(n);
+        return path;
+    }
 
-    clear() { this.undoStack = []; this.redoStack = []; }
-    canUndo() { return this.undoStack.length > 0; }
-    canRedo() { return this.redoStack.length > 0; }
-    getUndoLabel() { return this.undoStack.at(-1)?.label || ''; }
-    getRedoLabel() { return this.redoStack.at(-1)?.label || ''; }
+    private changed() {
+        const past = this.pathToCurrent();
+        const future = this.redoPath();
+        const onPast = new Set(past), onFuture = new Set(future);
+        const tree: HistoryTreeEntry[] = [];
+        // Active line stays at depth 0; other children are listed (nested) right after the step they branch from
+        const visit = (node: HistoryNode, depth: number) => {
+            for (let n: HistoryNode | null = node; n; n = n.redoChild ?? n.children.at(-1) ?? null) {
+                if (n.cmd) {
+                    const status: HistoryEntryStatus = n === this.current ? 'current' : onPast.has(n) ? 'past' : onFuture.has(n) ? 'future' : 'branch';
+                    tree.push({ ...toEntry(n.cmd), status, depth });
+                }
+                const main = n.redoChild ?? n.children.at(-1);
+                n.children.filter(c => c !== main).forEach(c => visit(c, depth + 1));
+            }
+        };
+        visit(this.root, 0);
+        this.snapshot = { past: past.map(n => toEntry(n.cmd!)), future: future.map(n => toEntry(n.cmd!)), tree };
+        this.listeners.forEach(l => l());
+    }
+
+    // Start over with an empty tree (the current one is handed out or dropped by the caller)
+    private reset() {
+        this.root = createRoot(); this.current = this.root; this.nodes = new Map(); this.groups = [];
+        this.bytes = 0; this.held = new Map();
+    }
+
+    clear() {
+        this.held.forEach((_, value) => releaseShared(value));
+        this.reset();
+        this.changed();
+    }
+    /** Hand out the whole tree (e.g. of a document being switched away from) and start over with an empty one. */
+    exportTree(): HistoryTree {
+        const tree: HistoryTree = { root: this.root, current: this.current, nodes: this.nodes, bytes: this.bytes, held: this.held };
+        this.reset();
+        this.changed();
+        return tree;
+    }
+    /** Make a tree handed out by `exportTree` the active history again (the current one is dropped). */
+    importTree(tree: HistoryTree) {
+        this.held.forEach((_, value) => releaseShared(value));
+        ({ root: this.root, current: this.current, nodes: this.nodes, bytes: this.bytes, held: this.held } = tree);
+        this.groups = [];
+        this.changed();
+    }
+    /** Drop a tree handed out by `exportTree` for good, releasing the heavy values only it held. */
+    disposeTree(tree: HistoryTree) {
+        tree.held.forEach((_, value) => releaseShared(value));
+        tree.held.clear();
+    }
+    /** Estimated bytes retained by the active tree. */
+    getBytes() { return this.bytes; }
+
+    /**
+     * Serializable active line: up to `limit` undo steps (oldest first) and redo steps (next first).
+     * Abandoned branches are not included; a command without data cuts the line there.
+     */
+    serialize(limit: number): { past: SerializedCommand[]; future: SerializedCommand[] } {
+        const past: SerializedCommand[] = [], future: SerializedCommand[] = [];
+        for (const n of this.pathToCurrent().reverse()) {
+            const cmd = toSerialized(n.cmd!); if (!cmd || past.length >= limit) break;
+            past.unshift(cmd);
+        }
+        for (const n of this.redoPath()) {
+            const cmd = toSerialized(n.cmd!); if (!cmd || future.length >= limit) break;
+            future.push(cmd);
+        }
+        return { past, future };
+    }
+    /** Replace the history with a linear one (`past` oldest first ending at the current state, `future` next redo first). */
+    load(past: Command[], future: Command[]) {
+        this.clear();
+        let node = this.root;
+        for (const cmd of [...past, ...future]) {
+            const child: HistoryNode = { cmd, parent: node, children: [], redoChild: null };
+            node.children.push(child);
+            node.redoChild = child;
+            this.nodes.set(cmd.id, child);
+            this.hold(cmd);
+            if (cmd === past.at(-1)) this.current = child;
+            node = child;
+        }
+        this.changed();
+    }
+
+    canUndo() { return this.current !== this.root; }
+    canRedo() { return !!this.current.redoChild; }
+    getUndoLabel() { return this.current.cmd?.label || ''; }
+    getRedoLabel() { return this.current.redoChild?.cmd?.label || ''; }
+
+    isGrouping() { return this.groups.length > 0; }
 
     async perform(cmd: Command, alreadyExecuted = false) {
         if (!alreadyExecuted) await cmd.execute();
-        this.undoStack.push(cmd);
-        if (this.undoStack.length > this.maxDepth) this.undoStack.shift();
-        this.redoStack = [];
+        this.push(cmd);
+    }
+
+    private push(cmd: Command) {
+        const group = this.groups.at(-1);
+        if (group) { group.commands.push(cmd); return; }
+        // The previous redo path stays in the tree as an abandoned branch
+        const node: HistoryNode = { cmd, parent: this.current, children: [], redoChild: null };
+        this.current.children.push(node);
+        this.current.redoChild = node;
+        this.current = node;
+        this.nodes.set(cmd.id, node);
+        this.hold(cmd);
+        this.prune();
+        this.changed();
+        this.recorders.forEach(r => r(cmd, false));
+    }
+
+    // Charge a command entering the tree: its own size, plus each heavy value no other command of the tree holds yet
+    private hold(cmd: Command) {
+        this.bytes += cmd.size ?? 0;
+        cmd.heavy?.forEach(value => {
+            const count = this.held.get(value) ?? 0;
+            this.held.set(value, count + 1);
+            if (count) return;
+            this.bytes += value.length * 2;
+            acquireShared(value);
+        });
+    }
+
+    private forget(node: HistoryNode) {
+        if (!node.cmd) return;
+        this.nodes.delete(node.cmd.id);
+        this.bytes -= node.cmd.size ?? 0;
+        node.cmd.heavy?.forEach(value => {
+            const count = (this.held.get(value) ?? 1) - 1;
+            if (count) { this.held.set(value, count); return; }
+            this.held.delete(value);
+            this.bytes -= value.length * 2;
+            releaseShared(value);
+        });
     }
+
+    private removeSubtree(node: HistoryNode) {
+        this.forget(node);
+        node.children.forEach(c => this.removeSubtree(c));
+    }
+
+    private detach(node: HistoryNode) {
+        const parent = node.parent; if (!parent) return;
+        parent.children = parent.children.filter(c => c !== node);
+        if (parent.redoChild === node) parent.redoChild = parent.children.at(-1) ?? null;
+    }
+
+    private prune() {
+        while (this.nodes.size > this.maxDepth || this.bytes > this.maxBytes) {
+            const protectedNodes = new Set(this.pathToCurrent());
+            // Oldest leaf outside the current line (abandoned branch tips / redo tail)
+            let leaf: HistoryNode | null = null;
+            for (const n of this.nodes.values()) {
+                if (!n.children.length && !protectedNodes.has(n) && (!leaf || n.cmd!.stamp < leaf.cmd!.stamp)) leaf = n;
+            }
+            const first = this.root.children.find(c => protectedNodes.has(c)) ?? null;
+            if (leaf && (!first || leaf.cmd!.stamp <= first.cmd!.stamp)) {
+                this.detach(leaf);
+                this.forget(leaf);
+            } else if (first) {
+                // Oldest step of the current line becomes the new initial state (its siblings go with the old root)
+                this.root.children.filter(c => c !== first).forEach(c => this.removeSubtree(c));
+                this.forget(first);
+                this.root = { cmd: null, parent: null, children: first.children, redoChild: first.redoChild };
+                first.children.forEach(c => { c.parent = this.root; });
+                if (this.current === first) this.current = this.root;
+            } else break;
+        }
+    }
+
+    /** The current step if an edit with `key` may still be merged into it (recent, nothing done or undone after it). */
+    coalesceTarget(key: string): Command | null {
+        const cmd = this.current.cmd;
+        if (this.isGrouping() || !cmd || cmd.coalesceKey !== key || this.current.children.length) return null;
+        return Date.now() - cmd.stamp <= COALESCE_MS ? cmd : null;
+    }
+    /** Replace the current step with `cmd` (a merged edit) without adding a new one. */
+    replaceCurrent(cmd: Command) {
+        const node = this.current; if (!node.cmd) return;
+        this.forget(node);
+        node.cmd = cmd;
+        this.nodes.set(cmd.id, node);
+        this.hold(cmd);
+        this.changed();
+        this.recorders.forEach(r => r(cmd, true));
+    }
+
+    /**
+     * Start collecting commands into a single undo step (groups nest; the outermost one reaches the history).
+     * Returns a handle for closing exactly this group later (see `endGroup` / `cancelGroup`).
+     */
+    beginGroup(label: string): HistoryGroup {
+        const group: HistoryGroup = { label, commands: [] };
+        this.groups.push(group);
+        return group;
+    }
+
+    // With a handle: false when that group is gone already (history cleared / replaced meanwhile); groups left open
+    // inside it are closed first
+    private closeTo(handle?: HistoryGroup) {
+        if (!handle) return true;
+        if (!this.groups.includes(handle)) return false;
+        while (this.groups.at(-1) !== handle) this.endGroup();
+        return true;
+    }
+
+    /** Close the innermost group (or `handle`), recording its commands as one composite command (empty groups record nothing). */
+    endGroup(handle?: HistoryGroup) {
+        if (!this.closeTo(handle)) return;
+        const group = this.groups.pop(); if (!group?.commands.length) return;
+        const commands = group.commands;
+        const serialized = commands.map(toSerialized);
+        this.push(commands.length === 1 ? { ...commands[0], label: group.label } : {
+            id: Math.random().toString(36).slice(2),
+            label: group.label,
+            stamp: Date.now(),
+            execute: async () => { for (const c of commands) await c.execute(); },
+            undo: async () => { for (const c of [...commands].reverse()) await c.undo(); },
+            size: commands.reduce((n, c) => n + (c.size ?? 0), 0),
+            heavy: [...new Set(commands.flatMap(c => c.heavy ?? []))],
+            data: serialized.every(c => c !== null) ? { kind: 'group', commands: serialized as SerializedCommand[] } : undefined,
+        });
+    }
+
+    /** Close the innermost group (or `handle`) and revert everything recorded in it (nothing reaches the history). */
+    async cancelGroup(handle?: HistoryGroup) {
+        if (!this.closeTo(handle)) return;
+        const group = this.groups.pop(); if (!group) return;
+        for (const c of [...group.commands].reverse()) await c.undo();
+    }
+
+    /**
+     * Run `fn` as one undoable unit: record* calls inside it (awaited or not) join the group.
+     * If `fn` throws, the commands recorded so far are rolled back and the error is rethrown.
+     */
+    async transaction<T>(label: string, fn: () => Promise<T> | T): Promise<T> {
+        const group = this.beginGroup(label);
+        try {
+            const result = await fn();
+            this.endGroup(group);
+            return result;
+        } catch (e) {
+            await this.cancelGroup(group);
+            throw e;
+        }
+    }
+
+    // Undo / redo are ignored while a group is open (its commands are not in the history yet)
     async undo() {
-        const cmd = this.undoStack.pop(); if (!cmd) return;
-        await cmd.undo();
-        this.redoStack.push(cmd);
+        if (this.isGrouping()) return;
+        const node = this.current; if (!node.cmd || !node.parent) return;
+        await node.cmd.undo();
+        node.parent.redoChild = node; // redo returns along the branch we came from
+        this.current = node.parent;
+        this.changed();
     }
     async redo() {
-        const cmd = this.redoStack.pop(); if (!cmd) return;
-        await cmd.execute();
-        this.undoStack.push(cmd);
+        if (this.isGrouping()) return;
+        const next = this.current.redoChild; if (!next?.cmd) return;
+        await next.cmd.execute();
+        this.current = next;
+        this.changed();
+    }
+
+    /** Move to the state right after command `id` (null = initial state), switching branches when needed. */
+    async jumpTo(id: string | null) {
+        if (this.isGrouping()) return;
+        const target = id === null ? this.root : this.nodes.get(id); if (!target) return;
+        const targetPath = new Set<HistoryNode>();
+        for (let n: HistoryNode | null = target; n; n = n.parent) targetPath.add(n);
+        // Undo up to the common ancestor, then redo down the target's branch
+        while (!targetPath.has(this.current)) await this.undo();
+        const down: HistoryNode[] = [];
+        for (let n: HistoryNode | null = target; n && n !== this.current; n = n.parent) down.unshift(n);
+        for (const n of down) { this.current.redoChild = n; await this.redo(); }
     }
 }
 
@@ -95,73 +517,117 @@ export const commandManager = new HistoryManager();
 
 // ================= Concrete Command Builders =================
 
+const newCommandId = () => Math.random().toString(36).slice(2);
+
+// Re-add objects that are not on the canvas (live instances when we still hold them, otherwise enlivened from JSON)
+const addStates = async (canvas: fabric.Canvas, states: SerializedState[], live?: Map<string, fabric.Object>) => {
+    for (const st of states) {
+        if (findObjectById(canvas, st.qcId)) continue;
+        const obj = live?.get(st.qcId);
+        if (obj) canvas.add(obj); else await enlivenState(canvas, st);
+    }
+    canvas.requestRenderAll();
+};
+
+const removeStates = (canvas: fabric.Canvas, states: SerializedState[]) => {
+    states.forEach(st => { const existing = findObjectById(canvas, st.qcId); if (existing) canvas.remove(existing); });
+    canvas.discardActiveObject();
+    canvas.requestRenderAll();
+};
+
+const applyOrder = (canvas: fabric.Canvas, order: string[]) => {
+    const existing = canvas.getObjects();
+    existing.forEach(o => ensureObjectId(o));
+    const map = new Map(existing.map(o => [getId(o) as string, o]));
+    // Build list in desired order; append any stray objects not referenced to preserve them.
+    const ordered: fabric.Object[] = [];
+    order.forEach(id => { const obj = map.get(id); if (obj) ordered.push(obj); });
+    existing.forEach(o => { const id = getId(o) as string; if (!order.includes(id)) ordered.push(o); });
+    // Efficiently reinsert: remove all then add in order (avoids touching background/overlay settings)
+    existing.slice().forEach(o => canvas.remove(o));
+    ordered.forEach(o => canvas.add(o));
+    canvas.discardActiveObject();
+    canvas.requestRenderAll();
+};
+
+const applyPropertyStates = (canvas: fabric.Canvas, states: PropMutationState[]) => {
+    states.forEach(st => {
+        const obj = findObjectById(canvas, st.qcId);
+        if (!obj) return;
+        try {
+            obj.set({ ...st.props });
+        } catch {
+            Object.entries(st.props).forEach(([k, v]) => {
+                try { (obj as any).set?.(k, v); } catch { (obj as any)[k] = v; }
+            });
+        }
+        obj.setCoords();
+        canvas.fire('object:modified', { target: obj });
+    });
+    canvas.requestRenderAll();
+};
+
+// execute / undo derived from the command data; `live` = object instances to re-add instead of enlivening copies
+const commandActions = (canvas: fabric.Canvas, data: CommandData, live?: Map<string, fabric.Object>): Pick<Command, 'execute' | 'undo'> => {
+    switch (data.kind) {
+        case 'add': return { execute: () => addStates(canvas, data.states, live), undo: () => removeStates(canvas, data.states) };
+        case 'remove': return { execute: () => removeStates(canvas, data.states), undo: () => addStates(canvas, data.states, live) };
+        case 'modify': {
+            const apply = (states: PropMutationState[]) => {
+                // States are scene coordinates: bake a live selection's transform into its members before applying them
+                if (canvas.getActiveObject() instanceof fabric.ActiveSelection) canvas.discardActiveObject();
+                states.forEach(st => applyPropsToExisting(canvas, st));
+                canvas.requestRenderAll();
+            };
+            return { execute: () => apply(data.after), undo: () => apply(data.before) };
+        }
+        case 'props': return { execute: () => applyPropertyStates(canvas, data.after), undo: () => applyPropertyStates(canvas, data.before) };
+        case 'reorder': return { execute: () => applyOrder(canvas, data.after), undo: () => applyOrder(canvas, data.before) };
+        case 'group': {
+            const commands = data.commands.map(c => hydrateCommand(canvas, c));
+            return {
+                execute: async () => { for (const c of commands) await c.execute(); },
+                undo: async () => { for (const c of [...commands].reverse()) await c.undo(); },
+            };
+        }
+    }
+};
+
+/** Rebuild a runnable command from its serialized form (e.g. history restored from IndexedDB). */
+export const hydrateCommand = (canvas: fabric.Canvas, { id, label, stamp, data }: SerializedCommand): Command =>
+    ({ id, label, stamp, data, ...commandActions(canvas, data), ...measureData(data) });
+
+const createCommand = (canvas: fabric.Canvas, label: string, data: CommandData, live?: fabric.Object[]): Command => ({
+    id: newCommandId(),
+    label,
+    stamp: Date.now(),
+    ...commandActions(canvas, data, live && new Map(live.map(o => [ensureObjectId(o), o]))),
+    ...measureData(data),
+    data,
+});
+
 export const snapshotObjects = (objects: fabric.Object[] | fabric.Object): SerializedState[] => {
     const arr = Array.isArray(objects) ? objects : [objects];
     return serializeObjects(arr);
 };
 
 export const recordAddObjects = async (canvas: fabric.Canvas, objects: fabric.Object[] | fabric.Object, label = 'Add', alreadyAdded = true) => {
-    const arr = Array.isArray(objects) ? objects : [objects]; arr.forEach(ensureObjectId);
-    const states = serializeObjects(arr);
-    const cmd: Command = {
-        id: Math.random().toString(36).slice(2),
-        label,
-        stamp: Date.now(),
-        execute: () => {
-            // Ensure objects are present or re-enliven
-            arr.forEach(o => { if (!canvas.getObjects().includes(o)) canvas.add(o); });
-            const missing = states.filter(st => !findObjectById(canvas, st.qcId));
-            if (missing.length) return missing.reduce<Promise<any>>((p, st) => p.then(() => enlivenState(canvas, st)), Promise.resolve()).then(() => { canvas.requestRenderAll(); });
-            canvas.requestRenderAll();
-        },
-        undo: () => {
-            arr.forEach(o => canvas.remove(o));
-            canvas.discardActiveObject();
-            canvas.requestRenderAll();
-        }
-    };
-    await commandManager.perform(cmd, alreadyAdded);
+    const arr = Array.isArray(objects) ? objects : [objects];
+    await commandManager.perform(createCommand(canvas, label, { kind: 'add', states: serializeObjects(arr) }, arr), alreadyAdded);
 };
 
 export const recordRemoveObjects = async (canvas: fabric.Canvas, objects: fabric.Object[] | fabric.Object, label = 'Delete', alreadyRemoved = true) => {
-    const arr = Array.isArray(objects) ? objects : [objects]; arr.forEach(ensureObjectId);
+    const arr = Array.isArray(objects) ? objects : [objects];
     const states = serializeObjects(arr);
     if (!alreadyRemoved) { arr.forEach(o => canvas.remove(o)); canvas.requestRenderAll(); }
-    const cmd: Command = {
-        id: Math.random().toString(36).slice(2),
-        label,
-        stamp: Date.now(),
-        execute: () => { // removal
-            arr.forEach(o => { const existing = findObjectById(canvas, getId(o) || ''); if (existing) canvas.remove(existing); });
-            canvas.discardActiveObject();
-            canvas.requestRenderAll();
-        },
-        undo: () => {
-            arr.forEach(o => { if (!canvas.getObjects().includes(o)) canvas.add(o); });
-            const missing = states.filter(st => !findObjectById(canvas, st.qcId));
-            if (missing.length) return missing.reduce<Promise<any>>((p, st) => p.then(() => enlivenState(canvas, st)), Promise.resolve()).then(() => canvas.requestRenderAll());
-            canvas.requestRenderAll();
-        }
-    };
-    await commandManager.perform(cmd, alreadyRemoved);
+    await commandManager.perform(createCommand(canvas, label, { kind: 'remove', states }, arr), alreadyRemoved);
 };
 
+// Stores only the changed properties of each object (not the full snapshots it is given)
 export const recordModify = async (canvas: fabric.Canvas, before: SerializedState[], after: SerializedState[], label = 'Modify', alreadyApplied = true) => {
-    if (!after.length) return;
-    const cmd: Command = {
-        id: Math.random().toString(36).slice(2),
-        label,
-        stamp: Date.now(),
-        execute: () => {
-            after.forEach(st => { if (!applyStateToExisting(canvas, st)) enlivenState(canvas, st); });
-            canvas.requestRenderAll();
-        },
-        undo: () => {
-            before.forEach(st => { if (!applyStateToExisting(canvas, st)) enlivenState(canvas, st); });
-            canvas.requestRenderAll();
-        }
-    };
-    await commandManager.perform(cmd, alreadyApplied);
+    const { prev, next } = diffStates(before, after);
+    if (!next.length) return; // nothing actually changed
+    await commandManager.perform(createCommand(canvas, label, { kind: 'modify', before: prev, after: next }), alreadyApplied);
 };
 
 // Record a pure z-order change (stacking order) which isn't captured by object JSON state.
@@ -173,38 +639,23 @@ export const recordReorder = async (
     alreadyApplied = true
 ) => {
     if (beforeOrder.join(',') === afterOrder.join(',')) return; // no-op
-    const applyOrder = (order: string[]) => {
-        const existing = canvas.getObjects();
-        existing.forEach(o => ensureObjectId(o));
-        const map = new Map(existing.map(o => [getId(o) as string, o]));
-        // Build list in desired order; append any stray objects not referenced to preserve them.
-        const ordered: fabric.Object[] = [];
-        order.forEach(id => { const obj = map.get(id); if (obj) ordered.push(obj); });
-        existing.forEach(o => { const id = getId(o) as string; if (!order.includes(id)) ordered.push(o); });
-        // Efficiently reinsert: remove all then add in order (avoids touching background/overlay settings)
-        existing.slice().forEach(o => canvas.remove(o));
-        ordered.forEach(o => canvas.add(o));
-        canvas.discardActiveObject();
-        canvas.requestRenderAll();
-    };
-    const cmd: Command = {
-        id: Math.random().toString(36).slice(2),
-        label,
-        stamp: Date.now(),
-        execute: () => applyOrder(afterOrder),
-        undo: () => applyOrder(beforeOrder)
-    };
-    await commandManager.perform(cmd, alreadyApplied);
+    await commandManager.perform(createCommand(canvas, label, { kind: 'reorder', before: beforeOrder, after: afterOrder }), alreadyApplied);
 };
 
-export interface PropMutationState { qcId: string; props: Record<string, any>; }
+// Per object union of props; `over` values win
+const mergePropStates = (base: PropMutationState[], over: PropMutationState[]): PropMutationState[] => {
+    const merged = new Map(base.map(st => [st.qcId, { ...st.props }]));
+    over.forEach(st => merged.set(st.qcId, { ...merged.get(st.qcId), ...st.props }));
+    return [...merged].map(([qcId, props]) => ({ qcId, props }));
+};
 
 export const recordPropertyMutation = async (
     canvas: fabric.Canvas,
     before: PropMutationState[],
     after: PropMutationState[],
     label = 'Modify Properties',
-    alreadyApplied = true
+    alreadyApplied = true,
+    coalesceKey?: string
 ) => {
     // Quick equality check – if every object's listed props have identical values, skip.
     const changed = after.some(a => {
@@ -212,29 +663,20 @@ export const recordPropertyMutation = async (
         return Object.keys(a.props).some(k => a.props[k] !== b.props[k]);
     });
     if (!changed) return;
-    const apply = (states: PropMutationState[]) => {
-        states.forEach(st => {
-            const obj = canvas.getObjects().find(o => getId(o) === st.qcId);
-            if (!obj) return;
-            try {
-                obj.set({ ...st.props });
-            } catch {
-                Object.entries(st.props).forEach(([k, v]) => {
-                    try { (obj as any).set?.(k, v); } catch { (obj as any)[k] = v; }
-                });
-            }
-            obj.setCoords();
-            canvas.fire('object:modified', { target: obj });
-        });
-        canvas.requestRenderAll();
-    };
-    const cmd: Command = {
-        id: Math.random().toString(36).slice(2),
-        label,
-        stamp: Date.now(),
-        execute: () => apply(after),
-        undo: () => apply(before)
-    };
+    // Merge into the previous step of the same rapid edit: its `before` values win, the new `after` values win over its
+    // own (props only the previous step changed keep their `after` value, so redo still applies them)
+    const previous = coalesceKey ? commandManager.coalesceTarget(coalesceKey) : null;
+    const merging = previous?.data?.kind === 'props' ? previous.data : null;
+    const cmd = createCommand(canvas, label, {
+        kind: 'props',
+        before: merging ? mergePropStates(before, merging.before) : before,
+        after: merging ? mergePropStates(merging.after, after) : after,
+    });
+    cmd.coalesceKey = coalesceKey;
+    if (merging) {
+        if (!alreadyApplied) await cmd.execute();
+        commandManager.replaceCurrent(cmd);
+        return;
+    }
     await commandManager.perform(cmd, alreadyApplied);
 };
-
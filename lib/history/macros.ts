@@ -0,0 +1,125 @@
+import * as fabric from 'fabric';
+import { db, generateId, MacroRecord } from '@/lib/db';
+import { toAssetRefs } from '@/lib/assets';
+import { Command, CommandData, commandManager, PropMutationState } from '@/lib/history/commandManager';
+
+// Editing macros.
+// While recording, every step entering the history is translated into selection relative operations
+// (set props on / move / reorder / delete the selection, add objects placed relative to it). Replaying applies them
+// to whatever is selected then (see `playMacro` in the store), as a single undo step.
+export type MacroStep =
+    | { op: 'set'; props: Record<string, unknown>; type?: string } // type = only objects of this type (when recorded on one type)
+    | { op: 'move'; dx: number; dy: number }
+    | { op: 'order'; direction: 'front' | 'back' | 'forward' | 'backward' }
+    | { op: 'delete' }
+    // Object JSON (no qcId); with `relative` their left / top are offsets from the selection's top-left corner
+    | { op: 'add'; objects: any[]; relative: boolean };
+
+// Listing shape for menus (steps omitted)
+export interface MacroSummary { id: string; name: string; createdAt: number; stepCount: number; }
+
+export const toMacroSummary = ({ steps, ...rest }: MacroRecord): MacroSummary => ({ ...rest, stepCount: steps.length });
+
+const POSITION_KEYS = ['left', 'top'];
+
+// Top-left corner of the current selection in canvas coordinates (null when nothing is selected)
+export const selectionAnchor = (canvas: fabric.Canvas): fabric.Point | null => {
+    const active = canvas.getActiveObject(); if (!active) return null;
+    const { left, top } = active.getBoundingRect();
+    return new fabric.Point(left, top);
+};
+
+const selectedIds = (canvas: fabric.Canvas) => canvas.getActiveObjects().map(o => o.qcId).filter((id): id is string => !!id);
+
+// Which layer operation turned `before` into `after` for the selected objects
+const orderDirection = (selected: string[], before: string[], after: string[]): MacroStep | null => {
+    const moved = selected.filter(id => after.includes(id)); if (!moved.length) return null;
+    const indices = moved.map(id => after.indexOf(id)).sort((a, b) => a - b);
+    if (indices.every((idx, i) => idx === after.length - moved.length + i)) return { op: 'order', direction: 'front' };
+    if (indices.every((idx, i) => idx === i)) return { op: 'order', direction: 'back' };
+    const shift = moved.reduce((n, id) => n + after.indexOf(id) - before.indexOf(id), 0);
+    return shift ? { op: 'order', direction: shift > 0 ? 'forward' : 'backward' } : null;
+};
+
+// Property deltas -> a move of the selection as a whole (mean left / top change over the moved objects, i.e. their
+// shared offset for a translation) plus the other props (last writer wins)
+const propertySteps = (canvas: fabric.Canvas, before: PropMutationState[], after: PropMutationState[]): MacroStep[] => {
+    const steps: MacroStep[] = [];
+    const deltas = after.flatMap(st => {
+        const prev = before.find(b => b.qcId === st.qcId)?.props ?? {};
+        const delta = (k: string) => typeof st.props[k] === 'number' && typeof prev[k] === 'number' ? (st.props[k] as number) - (prev[k] as number) : 0;
+        return POSITION_KEYS.some(k => k in st.props) ? [{ dx: delta('left'), dy: delta('top') }] : [];
+    });
+    if (deltas.length) {
+        const dx = deltas.reduce((n, d) => n + d.dx, 0) / deltas.length;
+        const dy = deltas.reduce((n, d) => n + d.dy, 0) / deltas.length;
+        if (dx || dy) steps.push({ op: 'move', dx, dy });
+    }
+    const props: Record<string, unknown> = {};
+    after.forEach(st => Object.entries(st.props).forEach(([k, v]) => { if (!POSITION_KEYS.includes(k)) props[k] = v; }));
+    if (Object.keys(props).length) {
+        // e.g. corner radii recorded on rects must not resize ellipses (rx / ry) on replay
+        const types = new Set(after.map(st => canvas.getObjects().find(o => o.qcId === st.qcId)?.type));
+        const [type] = types;
+        steps.push(types.size === 1 && type ? { op: 'set', props, type } : { op: 'set', props });
+    }
+    return steps;
+};
+
+const commandSteps = (canvas: fabric.Canvas, data: CommandData, anchor: fabric.Point | null): MacroStep[] => {
+    switch (data.kind) {
+        case 'add': return [{
+            op: 'add',
+            relative: !!anchor,
+            objects: data.states.map(({ json: { qcId: _qcId, ...json } }) => anchor
+                ? { ...json, left: (json.left ?? 0) - anchor.x, top: (json.top ?? 0) - anchor.y }
+                : json),
+        }];
+        case 'remove': return [{ op: 'delete' }];
+        case 'modify':
+        case 'props': return propertySteps(canvas, data.before, data.after);
+        case 'reorder': {
+            const step = orderDirection(selectedIds(canvas), data.before, data.after);
+            return step ? [step] : [];
+        }
+        case 'group': return data.commands.flatMap(c => commandSteps(canvas, c.data, anchor));
+    }
+};
+
+interface Recording {
+    anchor: fabric.Point | null;
+    entries: { id: string; steps: MacroStep[] }[]; // per recorded command (undone ones are dropped on stop)
+    stop: () => void;
+}
+let recording: Recording | null = null;
+
+/** Start translating history steps into macro steps (relative to the current selection of `canvas`). */
+export const startMacroRecording = (canvas: fabric.Canvas) => {
+    recording?.stop();
+    const rec: Recording = { anchor: selectionAnchor(canvas), entries: [], stop: () => { } };
+    rec.stop = commandManager.onRecord((cmd: Command, replaced) => {
+        if (replaced) rec.entries.pop();
+        rec.entries.push({ id: cmd.id, steps: cmd.data ? commandSteps(canvas, cmd.data, rec.anchor) : [] });
+    });
+    recording = rec;
+};
+
+/** Stop recording and return the steps of the commands still applied (undone ones are left out). */
+export const stopMacroRecording = (): MacroStep[] => {
+    const rec = recording; if (!rec) return [];
+    rec.stop();
+    recording = null;
+    const applied = new Set(commandManager.getSnapshot().past.map(e => e.id));
+    return rec.entries.filter(e => applied.has(e.id)).flatMap(e => e.steps);
+};
+
+export const listMacros = () => db.macros.orderBy('createdAt').reverse().toArray();
+
+export const saveMacro = async (name: string, steps: MacroStep[]): Promise<MacroRecord> => {
+    // Image sources as asset refs (same as documents), resolved again on replay
+    const macro: MacroRecord = { id: generateId(), name, createdAt: Date.now(), steps: await toAssetRefs(steps) };
+    await db.macros.put(macro);
+    return macro;
+};
+
+export const deleteMacro = (id: string) => db.macros.delete(id);
@@ -0,0 +1,100 @@
+import * as fabric from 'fabric';
+import { db } from '@/lib/db';
+import { resolveAssetRefs, toAssetRefs } from '@/lib/assets';
+import { commandManager, hydrateCommand, HistoryTree } from '@/lib/history/commandManager';
+
+// Per-document undo history.
+// Switching documents parks the outgoing document's whole undo tree in memory; saves also write the active line
+// (capped, at most every PERSIST_INTERVAL_MS) to the `histories` table so undo survives a reload. A parked / stored
+// history is only reused when the document still has the content it was captured with (`baseHash`), otherwise its
+// commands would not line up.
+export const PERSISTED_HISTORY_DEPTH = 100;
+const MAX_PARKED_HISTORIES = 10;
+// Active + parked trees together (values shared between trees count for each); the oldest parked trees go first
+const MAX_HISTORY_BYTES = 64 * 1024 * 1024;
+const PERSIST_INTERVAL_MS = 10_000;
+
+const parked = new Map<string, { baseHash: string; tree: HistoryTree }>();
+
+const dropParked = (documentId: string) => {
+    const entry = parked.get(documentId); if (!entry) return;
+    parked.delete(documentId);
+    commandManager.disposeTree(entry.tree);
+};
+
+// Oldest parked trees go first (Map keeps insertion order)
+const enforceBudget = () => {
+    let bytes = commandManager.getBytes() + [...parked.values()].reduce((n, { tree }) => n + tree.bytes, 0);
+    while (parked.size && (parked.size > MAX_PARKED_HISTORIES || bytes > MAX_HISTORY_BYTES)) {
+        const oldest = parked.keys().next().value!;
+        bytes -= parked.get(oldest)!.tree.bytes;
+        dropParked(oldest);
+    }
+};
+
+/** Detach the active history and keep it for `documentId` (whose stored content hash is `baseHash`). */
+export const parkHistory = (documentId: string, baseHash: string) => {
+    dropParked(documentId);
+    parked.set(documentId, { baseHash, tree: commandManager.exportTree() });
+    enforceBudget();
+};
+
+let writing: Promise<void> = Promise.resolve();
+let lastWrite = 0;
+let scheduled: ReturnType<typeof setTimeout> | null = null;
+const written = new Map<string, string>(); // documentId -> base hash + command ids of the last stored line
+
+/**
+ * Store the active line of the current history for `documentId`. Autosaves are throttled (a trailing write catches
+ * up); `immediate` writes right away (the history is about to be parked). Writes are serialized.
+ */
+export const persistHistory = (documentId: string, baseHash: string, immediate = false): Promise<void> => {
+    if (scheduled) { clearTimeout(scheduled); scheduled = null; }
+    enforceBudget();
+    const wait = immediate ? 0 : lastWrite + PERSIST_INTERVAL_MS - Date.now();
+    if (wait > 0) {
+        scheduled = setTimeout(() => { scheduled = null; writeHistory(documentId, baseHash); }, wait);
+        return writing;
+    }
+    return writeHistory(documentId, baseHash);
+};
+
+const writeHistory = (documentId: string, baseHash: string): Promise<void> => {
+    const { past, future } = commandManager.serialize(PERSISTED_HISTORY_DEPTH);
+    // Unchanged since the last write (e.g. a save without new edits): nothing to store
+    const key = [baseHash, ...past.map(c => c.id), '|', ...future.map(c => c.id)].join(',');
+    if (written.get(documentId) === key) return writing;
+    written.set(documentId, key);
+    lastWrite = Date.now();
+    writing = writing.then(async () => {
+        if (!past.length && !future.length) { await db.histories.delete(documentId); return; }
+        // Image sources as asset refs (session object URLs do not survive a reload)
+        const [storedPast, storedFuture] = await toAssetRefs([past, future]);
+        await db.histories.put({ documentId, baseHash, updatedAt: Date.now(), past: storedPast, future: storedFuture });
+    }).catch(e => console.warn('Failed to persist undo history', e));
+    return writing;
+};
+
+/**
+ * Make the history of `documentId` active after its content (`baseHash`) was loaded into `canvas`:
+ * the parked tree if any, else the stored line, else an empty history.
+ */
+export const restoreHistory = async (canvas: fabric.Canvas, documentId: string, baseHash: string) => {
+    const entry = parked.get(documentId);
+    parked.delete(documentId);
+    if (entry?.baseHash === baseHash) { commandManager.importTree(entry.tree); return; }
+    if (entry) commandManager.disposeTree(entry.tree);
+    commandManager.clear();
+    try {
+        const rec = await db.histories.get(documentId);
+        if (!rec || rec.baseHash !== baseHash) return;
+        const [past, future] = await resolveAssetRefs([rec.past, rec.future]);
+        commandManager.load(past.map(c => hydrateCommand(canvas, c)), future.map(c => hydrateCommand(canvas, c)));
+    } catch (e) { console.warn('Failed to restore undo history', e); }
+};
+
+export const deleteHistory = (documentId: string) => {
+    dropParked(documentId);
+    written.delete(documentId);
+    return db.histories.delete(documentId);
+};
@@ -0,0 +1,116 @@
+import * as fabric from 'fabric';
+import { db, generateId, DocumentRecord, JournalRecord } from '@/lib/db';
+import { resolveAssetRefs, toAssetRefs } from '@/lib/assets';
+import { ensureObjectId } from '@/lib/history/commandManager';
+import { findLiveTabs, TAB_ID } from '@/lib/sync';
+
+// Crash-safe recovery journal.
+// Between autosaves every mutation (markDirty) schedules a flush that writes the cumulative delta of the live canvas
+// against the last persisted snapshot (upserted objects / removed ids / z-order, keyed by qcId) to the `journal` table.
+// Entries belong to the tab that wrote them: each flush replaces the tab's entry for the document and a successful
+// save clears it. Only entries of tabs that are no longer open are offered for recovery.
+export const JOURNAL_FLUSH_MS = 250;
+
+// Extra per-object props persisted with canvas JSON so objects keep their qcId across save / load
+export const PERSISTED_OBJECT_PROPS = ['qcId'];
+
+interface Baseline {
+    documentId: string;
+    baseHash: string;
+    objects: Map<string, string>; // qcId -> serialized object JSON at last load / save
+    order: string[];
+}
+let baseline: Baseline | null = null;
+
+// Object JSON exactly as persisted (canvas level serialization, so active selection transforms are baked in)
+export const serializeCanvasObjects = (canvas: fabric.Canvas): any[] => {
+    canvas.getObjects().forEach(ensureObjectId);
+    return canvas.toObject(PERSISTED_OBJECT_PROPS).objects ?? [];
+};
+
+/**
+ * Objects stored without a qcId get one derived from their position in the stored snapshot, so a later session
+ * loading the same record assigns the same ids and journal deltas still line up.
+ */
+export const assignBaselineIds = (canvas: fabric.Canvas, documentId: string) => {
+    canvas.getObjects().forEach((o, i) => { if (!o.qcId) o.qcId = `${documentId}:${i}`; });
+};
+
+/** Remember the persisted object JSON (with qcIds) the journal diffs against; call after load / save. */
+export const setJournalBaseline = (documentId: string, baseHash: string, objects: any[]) => {
+    baseline = {
+        documentId,
+        baseHash,
+        objects: new Map(objects.map(o => [o.qcId as string, JSON.stringify(o)])),
+        order: objects.map(o => o.qcId as string),
+    };
+};
+
+export const clearJournal = (documentId: string) => db.journal.where('documentId').equals(documentId).delete();
+
+const clearOwnJournal = (documentId: string) => db.journal.where('documentId').equals(documentId).filter(e => e.tabId === TAB_ID).delete();
+
+/** Drop a recovered or discarded entry. */
+export const discardJournal = (entry: JournalRecord) => db.journal.delete(entry.id);
+
+let writing: Promise<void> = Promise.resolve();
+
+/** Write the current delta of `canvas` against the baseline (no-op when nothing changed). Flushes are serialized. */
+export const flushJournal = (documentId: string, canvas: fabric.Canvas): Promise<void> => {
+    writing = writing.then(async () => {
+        const base = baseline;
+        if (!base || base.documentId !== documentId) return;
+        const objects = serializeCanvasObjects(canvas);
+        const order = objects.map(o => o.qcId as string);
+        const live = new Set(order);
+        const upserts = objects.filter(o => base.objects.get(o.qcId) !== JSON.stringify(o));
+        const removed = base.order.filter(id => !live.has(id));
+        if (!upserts.length && !removed.length && order.join(',') === base.order.join(',')) {
+            await clearOwnJournal(documentId); // edits were undone back to the saved state
+            return;
+        }
+        const entry: JournalRecord = {
+            id: generateId(),
+            documentId,
+            tabId: TAB_ID,
+            createdAt: Date.now(),
+            baseHash: base.baseHash,
+            upserts: await toAssetRefs(upserts), // blob URLs do not survive the session
+            removed,
+            order,
+        };
+        await db.transaction('rw', db.journal, async () => {
+            await clearOwnJournal(documentId);
+            await db.journal.put(entry);
+        });
+    }).catch(e => console.warn('Journal flush failed', e));
+    return writing;
+};
+
+/**
+ * Latest journal entry left by a tab that is gone (or by this one: a freshly loaded canvas no longer holds its edits)
+ * that applies on top of `rec` and holds edits newer than its last save. Other entries of gone tabs are dropped;
+ * entries of tabs still open are theirs.
+ */
+export const findRecoverableJournal = async (rec: DocumentRecord): Promise<JournalRecord | null> => {
+    const entries = await db.journal.where('documentId').equals(rec.id).sortBy('createdAt');
+    if (!entries.length) return null;
+    const live = await findLiveTabs();
+    const orphaned = entries.filter(e => !e.tabId || !live.has(e.tabId));
+    const latest = orphaned.at(-1);
+    const recoverable = latest && latest.baseHash === rec.contentHash && latest.createdAt > rec.updatedAt ? latest : null;
+    const stale = orphaned.filter(e => e !== recoverable).map(e => e.id);
+    if (stale.length) await db.journal.bulkDelete(stale);
+    return recoverable;
+};
+
+/** Replay a journal entry onto a canvas freshly loaded from the entry's base snapshot. */
+export const applyJournalEntry = async (canvas: fabric.Canvas, entry: JournalRecord) => {
+    const upserted = await fabric.util.enlivenObjects<fabric.Object>(await resolveAssetRefs(entry.upserts));
+    const byId = new Map(canvas.getObjects().map(o => [o.qcId!, o]));
+    upserted.forEach(o => byId.set(o.qcId!, o));
+    entry.removed.forEach(id => byId.delete(id));
+    canvas.remove(...canvas.getObjects());
+    entry.order.forEach(id => { const o = byId.get(id); if (o) canvas.add(o); });
+    canvas.requestRenderAll();
+};
@@ -0,0 +1,59 @@
+import { generateId } from '@/lib/db';
+
+// Cross-tab coordination: tabs announce persisted changes over a BroadcastChannel so others can
+// refresh (clean tabs) or flag an edit conflict (dirty tabs) instead of silently overwriting each other.
+export type SyncMessage =
+    | { type: 'document-saved'; documentId: string; contentHash: string; updatedAt: number }
+    | { type: 'documents-changed' }; // list level change (create / rename / delete / import)
+
+// Liveness probe: every open tab answers a ping (handled here, never passed to subscribers)
+type ProbeMessage = { type: 'ping' } | { type: 'pong'; to: string };
+
+type Envelope = (SyncMessage | ProbeMessage) & { tabId: string };
+
+export const TAB_ID = generateId();
+const CHANNEL_NAME = 'quickcanvas-sync';
+const PROBE_MS = 200;
+
+const isProbe = (msg: Envelope) => msg.type === 'ping' || msg.type === 'pong';
+
+let channel: BroadcastChannel | null = null;
+const getChannel = (): BroadcastChannel | null => {
+    if (channel) return channel;
+    if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') return null;
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.addEventListener('message', (e: MessageEvent<Envelope>) => {
+        if (e.data?.type === 'ping' && e.data.tabId !== TAB_ID) post({ type: 'pong', to: e.data.tabId });
+    });
+    return channel;
+};
+
+const post = (msg: SyncMessage | ProbeMessage) => {
+    try { getChannel()?.postMessage({ ...msg, tabId: TAB_ID } satisfies Envelope); } catch (e) { console.warn('Sync broadcast failed', e); }
+};
+
+export const broadcastSync = (msg: SyncMessage) => post(msg);
+
+/** Ids of the other open tabs (those answering a ping within PROBE_MS). */
+export const findLiveTabs = async (): Promise<Set<string>> => {
+    const tabs = new Set<string>();
+    const ch = getChannel(); if (!ch) return tabs;
+    const handler = (e: MessageEvent<Envelope>) => { if (e.data?.type === 'pong' && e.data.to === TAB_ID) tabs.add(e.data.tabId); };
+    ch.addEventListener('message', handler);
+    post({ type: 'ping' });
+    await new Promise(resolve => setTimeout(resolve, PROBE_MS));
+    ch.removeEventListener('message', handler);
+    return tabs;
+};
+
+/** Listen for messages from other tabs (own messages are filtered out). Returns an unsubscribe fn. */
+export const subscribeSync = (listener: (msg: SyncMessage) => void): (() => void) => {
+    const ch = getChannel(); if (!ch) return () => { };
+    const handler = (e: MessageEvent<Envelope>) => {
+        if (!e.data || e.data.tabId === TAB_ID || isProbe(e.data)) return;
+        const { tabId: _tabId, ...msg } = e.data;
+        listener(msg as SyncMessage);
+    };
+    ch.addEventListener('message', handler);
+    return () => ch.removeEventListener('message', handler);
+};
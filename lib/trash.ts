@@ -0,0 +1,64 @@
+import { db, DocumentRecord } from '@/lib/db';
+import { deleteVersions } from '@/lib/versions';
+import { clearJournal } from '@/lib/journal';
+import { deleteHistory } from '@/lib/history/persistence';
+
+// Deleted documents are only flagged (`deletedAt`) and purged for real after the retention period.
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90] as const; // days offered in the Trash view
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const RETENTION_KEY = 'qc:trashRetentionDays';
+const DAY = 24 * 60 * 60 * 1000;
+
+// Lightweight listing shape for the Trash view
+export interface TrashedDocument {
+    id: string;
+    name: string;
+    deletedAt: number;
+    preview?: string;
+}
+
+export const isTrashed = (rec: Pick<DocumentRecord, 'deletedAt'>) => typeof rec.deletedAt === 'number';
+
+export const getTrashRetentionDays = (): number => {
+    try {
+        const v = Number(localStorage.getItem(RETENTION_KEY));
+        if (Number.isFinite(v) && v > 0) return v;
+    } catch { }
+    return DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const setTrashRetentionDays = (days: number) => {
+    try { localStorage.setItem(RETENTION_KEY, String(days)); } catch { }
+};
+
+/** Milliseconds until a trashed document is purged automatically (0 when already due). */
+export const trashExpiresIn = (deletedAt: number, retentionDays: number, now = Date.now()) =>
+    Math.max(0, deletedAt + retentionDays * DAY - now);
+
+export const listTrash = async (): Promise<TrashedDocument[]> => {
+    const rows = await db.documents.where('deletedAt').above(0).toArray();
+    return rows
+        .map(d => ({ id: d.id, name: d.name, deletedAt: d.deletedAt!, preview: d.preview }))
+        .sort((a, b) => b.deletedAt - a.deletedAt);
+};
+
+export const moveToTrash = (id: string) => db.documents.update(id, { deletedAt: Date.now() });
+
+// Dexie removes the property when updated with undefined
+export const restoreFromTrash = (id: string) => db.documents.update(id, { deletedAt: undefined, updatedAt: Date.now() });
+
+/** Permanently delete a document, its version history and undo history (image assets are left to the asset GC). */
+export const purgeDocument = async (id: string) => {
+    await db.documents.delete(id);
+    await deleteVersions(id);
+    await clearJournal(id);
+    await deleteHistory(id);
+};
+
+/** Purge trashed documents older than the retention period. Returns the number of purged documents. */
+export const purgeExpiredTrash = async (retentionDays = getTrashRetentionDays()): Promise<number> => {
+    const cutoff = Date.now() - retentionDays * DAY;
+    const expired = await db.documents.where('deletedAt').below(cutoff).primaryKeys();
+    for (const id of expired) await purgeDocument(id);
+    return expired.length;
+};
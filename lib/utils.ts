@@ -6,8 +6,40 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+// Trigger a browser download for an in-memory blob (object URL revoked right after the click)
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 export async function stableHash(payload: any): Promise<string> {
   // ohash already canonicalizes (stable stringify). Returns short hex-like hash.
   return ohash(payload);
 }
 
+// Object JSON without its qcId (and those of group members): ids are identity, not content, so identical content
+// hashes the same in every document
+export function withoutObjectIds(obj: any): any {
+  if (!obj || typeof obj !== "object") return obj;
+  const { qcId: _qcId, ...content } = obj;
+  return Array.isArray(content.objects) ? { ...content, objects: content.objects.map(withoutObjectIds) } : content;
+}
+
+
+// Short relative time for recent timestamps ("now", "5s ago", "3 min ago", "2 hr ago", then a date)
+export function formatRelativeTime(stamp: number, now = Date.now()): string {
+  const sec = Math.round((now - stamp) / 1000);
+  if (sec < 5) return "now";
+  if (sec < 60) return `${sec}s ago`;
+  const min = Math.floor(sec / 60);
+  if (min < 60) return `${min} min ago`;
+  const hr = Math.floor(min / 60);
+  if (hr < 24) return `${hr} hr ago`;
+  return new Date(stamp).toLocaleDateString();
+}
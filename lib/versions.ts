@@ -0,0 +1,94 @@
+import { db, generateId, DocumentRecord, DocumentVersionRecord } from '@/lib/db';
+
+// Retention policy (tweak here):
+// - auto captures are taken at most every AUTO_VERSION_INTERVAL while the document keeps changing
+// - the newest KEEP_RECENT_AUTO auto captures are always kept
+// - older auto captures are thinned to one per day and dropped after KEEP_DAILY_DAYS
+// - manual (named) restore points are never pruned automatically
+export const AUTO_VERSION_INTERVAL = 5 * 60 * 1000;
+const KEEP_RECENT_AUTO = 20;
+const KEEP_DAILY_DAYS = 14;
+const DAY = 24 * 60 * 60 * 1000;
+
+// Lightweight listing shape (omits the heavy Fabric JSON)
+export type VersionSummary = Omit<DocumentVersionRecord, 'data'>;
+
+export const listVersions = async (documentId: string): Promise<DocumentVersionRecord[]> => {
+    const rows = await db.documentVersions.where('[documentId+createdAt]').between([documentId, -Infinity], [documentId, Infinity]).toArray();
+    return rows.reverse(); // newest first
+};
+
+export const toVersionSummary = ({ data: _data, ...rest }: DocumentVersionRecord): VersionSummary => rest;
+
+// Captures run one at a time: a save's background auto capture and an explicit capture (restore / named version)
+// would otherwise both compare against the same "latest" version
+let capturing: Promise<unknown> = Promise.resolve();
+
+/**
+ * Capture a version of a persisted document record.
+ * Identical content (same contentHash as the newest version) is never stored twice: auto captures are skipped, and a
+ * manual capture promotes the newest version when it is an unnamed auto capture (otherwise a new manual version is
+ * stored, so existing restore points keep their names).
+ * Returns the stored (or promoted) version, or null when the capture was skipped.
+ */
+export const captureVersion = (
+    rec: DocumentRecord,
+    opts: { kind: 'auto' | 'manual'; name?: string; force?: boolean }
+): Promise<DocumentVersionRecord | null> => {
+    const run = capturing.catch(() => { }).then(() => storeVersion(rec, opts));
+    capturing = run;
+    return run;
+};
+
+const storeVersion = async (
+    rec: DocumentRecord,
+    opts: { kind: 'auto' | 'manual'; name?: string; force?: boolean }
+): Promise<DocumentVersionRecord | null> => {
+    const versions = await listVersions(rec.id);
+    const latest = versions[0];
+    if (latest && latest.contentHash === rec.contentHash) {
+        if (opts.kind === 'auto') return null;
+        if (latest.kind === 'auto' && !latest.name) {
+            const promoted: DocumentVersionRecord = { ...latest, kind: 'manual', name: opts.name };
+            await db.documentVersions.put(promoted);
+            return promoted;
+        }
+    }
+    if (opts.kind === 'auto' && !opts.force) {
+        const latestAuto = versions.find(v => v.kind === 'auto');
+        if (latestAuto && Date.now() - latestAuto.createdAt < AUTO_VERSION_INTERVAL) return null;
+    }
+    const version: DocumentVersionRecord = {
+        id: generateId(),
+        documentId: rec.id,
+        createdAt: Date.now(),
+        kind: opts.kind,
+        name: opts.name,
+        data: rec.data,
+        preview: rec.preview,
+        contentHash: rec.contentHash,
+    };
+    await db.documentVersions.put(version);
+    await pruneVersions(rec.id);
+    return version;
+};
+
+// Apply the retention policy to a document's auto captures.
+export const pruneVersions = async (documentId: string) => {
+    const autos = (await listVersions(documentId)).filter(v => v.kind === 'auto');
+    const now = Date.now();
+    const seenDays = new Set<number>();
+    const drop: string[] = [];
+    autos.forEach((v, i) => {
+        if (i < KEEP_RECENT_AUTO) return;
+        const age = now - v.createdAt;
+        const day = Math.floor(v.createdAt / DAY);
+        if (age > KEEP_DAILY_DAYS * DAY || seenDays.has(day)) { drop.push(v.id); return; }
+        seenDays.add(day);
+    });
+    if (drop.length) await db.documentVersions.bulkDelete(drop);
+};
+
+export const deleteVersions = async (documentId: string) => {
+    await db.documentVersions.where('documentId').equals(documentId).delete();
+};
@@ -1,15 +1,31 @@
 "use client";
 
-import { create } from "zustand";
+import { create, StoreApi } from "zustand";
 import { CanvasTool } from "@/types/canvas";
 import * as fabric from "fabric";
 import { toast } from "sonner";
-import { stableHash } from "@/lib/utils";
-import { applyFillToObjectOrSelection, extractUnifiedFill, supportsFill } from "@/lib/fabric/selection";
-import { recordReorder, ensureObjectId, recordPropertyMutation, commandManager, recordRemoveObjects } from '@/lib/history/commandManager';
-import { db, generateId, computeStableHash } from '@/lib/db';
+import { downloadBlob, stableHash } from "@/lib/utils";
+import { extractUnifiedFill, supportsFill } from "@/lib/fabric/selection";
+import type { Arrow, ArrowHead } from "@/lib/fabric/arrows";
+import { attachedConnectors, isConnector, rerouteAttachedConnectors, type Connector, type ConnectorRouting } from "@/lib/fabric/connectors";
+import type { Frame } from "@/lib/fabric/frames";
+import { BooleanOp, BOOLEAN_OPS, booleanPath, isBooleanOperand } from "@/lib/fabric/booleans";
+import { BrushStyle, DrawSettings, DrawVariant, getDrawSettings, setDrawSettings } from "@/lib/fabric/drawing";
+import { recordReorder, ensureObjectId, recordPropertyMutation, commandManager, recordRemoveObjects, PropMutationState, recordAddObjects, recordModify, snapshotObjects } from '@/lib/history/commandManager';
+import { db, generateId } from '@/lib/db';
+import { computeCanvasContentHash, computeContentHash } from '@/lib/contentHash';
+import { zoomToFitObjects } from '@/lib/fabric/utils';
+import { documentFileName, parseDocumentFile, serializeDocumentFile } from '@/lib/documentFile';
+import { garbageCollectAssets, resolveAssetRefs, toAssetRefs } from '@/lib/assets';
+import { broadcastSync } from '@/lib/sync';
+import { applyJournalEntry, assignBaselineIds, discardJournal, findRecoverableJournal, flushJournal, JOURNAL_FLUSH_MS, PERSISTED_OBJECT_PROPS, serializeCanvasObjects, setJournalBaseline } from '@/lib/journal';
+import { backupFileName, createWorkspaceBackup, describeRestoreReport, parseWorkspaceBackup, restoreWorkspaceBackup, RestoreMode, RestoreReport } from '@/lib/backup';
+import { getTrashRetentionDays, listTrash, moveToTrash, purgeDocument, purgeExpiredTrash, restoreFromTrash, setTrashRetentionDays, TrashedDocument } from '@/lib/trash';
+import { parkHistory, persistHistory, restoreHistory } from '@/lib/history/persistence';
+import { deleteMacro, listMacros, MacroStep, MacroSummary, saveMacro, selectionAnchor, startMacroRecording, stopMacroRecording, toMacroSummary } from '@/lib/history/macros';
+import { captureVersion, listVersions, toVersionSummary, VersionSummary } from '@/lib/versions';
 
-// Representation of a gallery resource (persisted in-memory for now)
+// Representation of a gallery resource (persisted to IndexedDB via the `gallery` table)
 // We store: id, kind, a lightweight preview (dataURL), and a serialized object JSON
 // Minimal serialized representation for a single fabric object we care about.
 export interface SerializedFabricObject {
@@ -23,6 +39,8 @@ export interface SerializedFabricObject {
     [extra: string]: unknown;
 }
 
+export type SelectionProps = Record<string, unknown>;
+
 export type GalleryPayload = SerializedFabricObject | SerializedFabricObject[];
 
 export interface GalleryItem {
@@ -40,15 +58,54 @@ interface Mainstore {
     documentName: string;
     documents: { id: string; name: string; updatedAt: number; preview?: string }[]; // lightweight list
     documentDirty: boolean; // unsaved local mutations since last persisted snapshot
+    documentHash: string | null; // contentHash of the stored record this tab last loaded / saved (conflict base)
+    // Another tab saved the active document while this tab had unsaved edits
+    syncConflict: { documentId: string; theirHash: string; theirUpdatedAt: number } | null;
+    reportSyncConflict: (conflict: NonNullable<Mainstore['syncConflict']>) => void;
+    resolveSyncConflict: (choice: 'mine' | 'theirs' | 'copy', canvas?: fabric.Canvas) => Promise<void>;
     loadDocuments: () => Promise<void>;
     createDocument: (name?: string) => Promise<void>;
     loadDocument: (id: string, canvas?: fabric.Canvas) => Promise<void>;
     renameDocument: (id: string, name: string) => Promise<void>;
-    deleteDocument: (id: string, activeCanvas?: fabric.Canvas) => Promise<void>;
-    saveDocument: (canvas?: fabric.Canvas, opts?: { force?: boolean }) => Promise<void>;
-    markDirty: () => void; // mark active doc dirty; debounced autosave will pick up
+    deleteDocument: (id: string, activeCanvas?: fabric.Canvas) => Promise<void>; // soft delete: moves to the Trash
+    // Trash (soft deleted documents, newest deletion first)
+    trash: TrashedDocument[];
+    trashRetentionDays: number; // trashed documents older than this are purged automatically
+    loadTrash: () => Promise<void>;
+    restoreDocument: (id: string) => Promise<void>;
+    purgeDocument: (id: string) => Promise<void>; // permanent
+    emptyTrash: () => Promise<void>;
+    purgeExpiredTrash: () => Promise<void>;
+    setTrashRetentionDays: (days: number) => Promise<void>;
+    // Editing macros (newest first)
+    macros: MacroSummary[];
+    macroRecording: boolean;
+    loadMacros: () => Promise<void>;
+    startMacroRecording: (canvas: fabric.Canvas) => void; // subsequent edits are recorded relative to the current selection
+    stopMacroRecording: (name: string) => Promise<void>; // saves the recorded steps (nothing recorded = nothing saved)
+    cancelMacroRecording: () => void;
+    playMacro: (canvas: fabric.Canvas, id: string) => Promise<void>; // replay on the current selection as one undo step
+    deleteMacro: (id: string) => Promise<void>;
+    // force = save even when not dirty; overwrite = write even if another tab changed the stored record meanwhile
+    saveDocument: (canvas?: fabric.Canvas, opts?: { force?: boolean; overwrite?: boolean }) => Promise<void>;
+    exportDocument: (canvas?: fabric.Canvas) => Promise<void>; // download active doc as a portable .qcanvas file
+    importDocument: (file: File, canvas?: fabric.Canvas) => Promise<void>; // .qcanvas file -> new document (opened)
+    backupWorkspace: (canvas?: fabric.Canvas) => Promise<void>; // download every document + gallery item as one archive
+    restoreWorkspace: (file: File, mode: RestoreMode, canvas?: fabric.Canvas) => Promise<RestoreReport | null>;
+    markDirty: () => void; // report a mutation; dirtiness is then derived from the content hash (autosave picks it up)
+    refreshDirty: (canvas?: fabric.Canvas) => Promise<void>; // documentDirty = canvas content hash differs from last saved
+    saveViewState: (canvas: fabric.Canvas) => Promise<void>; // persist viewport + tool only (never dirties / rehashes)
+    // Version history of the active document (newest first, data omitted)
+    versions: VersionSummary[];
+    loadVersions: () => Promise<void>;
+    createVersion: (canvas: fabric.Canvas | undefined, name: string) => Promise<void>; // named restore point of current state
+    restoreVersion: (versionId: string, canvas: fabric.Canvas) => Promise<void>; // replace active doc content (current state captured first)
+    forkVersion: (versionId: string, canvas: fabric.Canvas) => Promise<void>; // open version as a new document
     tool: CanvasTool;
     setTool: (t: CanvasTool) => void;
+    drawSettings: DrawSettings; // brush of the draw tool (remembered across sessions)
+    setDrawVariant: (variant: DrawVariant) => void;
+    setBrushStyle: (style: Partial<BrushStyle>) => void; // applies to the active variant
     // Selection (centralized info derived from fabric canvas)
     selection: {
         has: boolean;
@@ -60,22 +117,43 @@ interface Mainstore {
             kind: string; // e.g. 'rect', 'ellipse'
             // Rectangle specific
             rect?: { rx: number | null; ry: number | null };
+            // Polygon / star specific (sides = star point count)
+            polygon?: { sides: number | null; innerRatio: number | null };
+            // Arrow specific (null = mixed)
+            arrow?: { startHead: ArrowHead | null; endHead: ArrowHead | null };
+            // Connector specific (null = mixed)
+            connector?: { routing: ConnectorRouting | null };
+            // Frame specific (single frame)
+            frame?: { name: string; clipContent: boolean; background: boolean };
         } | null;
         // Capability flags (render gating). Add new flags here instead of ad-hoc UI conditionals.
         capabilities?: {
             fill: boolean;           // at least one object supports fill
             cornerRadius: boolean;   // all objects are rects (unified corner radius editing)
+            polygon?: boolean;       // all objects are polygons, or all stars (side / point count editing)
+            arrow?: boolean;         // all objects are arrows, or all connectors (head style editing)
+            connector?: boolean;     // all objects are connectors (routing style editing)
+            boolean?: boolean;       // 2+ objects, all vector shapes (union / subtract / intersect / exclude)
+            frame?: boolean;         // a single frame (name, clipping, background, export)
         };
     };
     setSelectionFromCanvas: (canvas: fabric.Canvas) => void;
+    /**
+     * Single path for property controls: set `props` (or a per-object `(obj) => props | null`, null = skip) on the
+     * selected objects, recorded as one undoable step (rapid repeats of the same edit coalesce) and marked dirty.
+     */
+    applyPropertiesToSelection: (canvas: fabric.Canvas, props: SelectionProps | ((obj: fabric.Object) => SelectionProps | null), label: string) => void;
     applyFillToSelection: (canvas: fabric.Canvas, color: string) => void;
-    applyRectCornerRadiusToSelection: (canvas: fabric.Canvas, radius: { rx?: number; ry?: number }, opts?: { record?: boolean }) => void;
+    applyRectCornerRadiusToSelection: (canvas: fabric.Canvas, radius: { rx?: number; ry?: number }) => void;
     deleteSelection: (canvas: fabric.Canvas) => void;
+    /** Replace the selected shapes with one path combining them (one undoable step). */
+    booleanSelection: (canvas: fabric.Canvas, op: BooleanOp) => Promise<void>;
     bringForward: (canvas: fabric.Canvas) => void;
     sendBackward: (canvas: fabric.Canvas) => void;
     bringToFront: (canvas: fabric.Canvas) => void;
     sendToBack: (canvas: fabric.Canvas) => void;
     gallery: GalleryItem[];
+    loadGallery: () => Promise<void>; // hydrate gallery + checksum index from IndexedDB
     /**
      * Add a fabric object (single / image / activeselection) to the gallery.
      * Returns the GalleryItem (either newly created or the existing bumped one).
@@ -93,6 +171,34 @@ const genId = () => {
 // Maintain an internal checksum index for O(1) dedupe lookups (not exposed in state)
 const checksumIndex = new Map<string, string>(); // checksum -> gallery id
 
+const GALLERY_LIMIT = 200;
+
+// Gallery writes go through to IndexedDB in the background; the in-memory list stays authoritative for the UI.
+const persistGallery = (op: () => Promise<unknown>) => { op().catch(e => console.warn('Gallery persistence failed', e)); };
+
+// Apply `update` to the gallery, keeping at most GALLERY_LIMIT items. Items beyond the cap are dropped from the
+// checksum index + storage once the state is set (never inside the updater)
+const updateGallery = (set: StoreApi<Mainstore>['setState'], update: (gallery: GalleryItem[]) => GalleryItem[]) => {
+    let evicted: GalleryItem[] = [];
+    set(state => {
+        const gallery = update(state.gallery);
+        if (gallery === state.gallery || gallery.length <= GALLERY_LIMIT) return { gallery };
+        evicted = gallery.slice(GALLERY_LIMIT);
+        return { gallery: gallery.slice(0, GALLERY_LIMIT) };
+    });
+    if (!evicted.length) return;
+    evicted.forEach(g => { if (g.checksum && checksumIndex.get(g.checksum) === g.id) checksumIndex.delete(g.checksum); });
+    persistGallery(() => db.gallery.bulkDelete(evicted.map(g => g.id)));
+};
+
+let journalTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Dirty tracking: edits schedule a content hash comparison against the last loaded / saved state
+const DIRTY_CHECK_MS = 200;
+let dirtyCheckTimer: ReturnType<typeof setTimeout> | null = null;
+let editGeneration = 0; // bumped by every markDirty so stale hash results are dropped
+let cleanState: { documentId: string; hash: string } | null = null;
+
 // Whitelisted properties for serialization + a few more style/transform properties for fidelity
 const SERIALIZE_PROPS = [
     'selectable', 'evented', 'name', 'id', 'left', 'top', 'width', 'height', 'angle', 'scaleX', 'scaleY', 'rx', 'ry',
@@ -104,21 +210,70 @@ const SERIALIZE_PROPS = [
 export const useMainStore = create<Mainstore>()((set, get) => ({
     tool: "pointer",
     setTool: (t) => set({ tool: t }),
+    drawSettings: getDrawSettings(),
+    setDrawVariant: (variant) => {
+        const drawSettings = { ...get().drawSettings, variant };
+        setDrawSettings(drawSettings);
+        set({ drawSettings });
+    },
+    setBrushStyle: (style) => {
+        const { variant, styles } = get().drawSettings;
+        const drawSettings = { variant, styles: { ...styles, [variant]: { ...styles[variant], ...style } } };
+        setDrawSettings(drawSettings);
+        set({ drawSettings });
+    },
     documentId: null,
     documentName: 'Untitled',
     documents: [],
     documentDirty: false,
+    documentHash: null,
+    syncConflict: null,
+    trash: [],
+    trashRetentionDays: getTrashRetentionDays(),
+    macros: [],
+    macroRecording: false,
+    reportSyncConflict: (conflict) => set({ syncConflict: conflict }),
+    resolveSyncConflict: async (choice, canvas) => {
+        const conflict = get().syncConflict; if (!conflict) return;
+        if (get().documentId !== conflict.documentId) { set({ syncConflict: null }); return; }
+        if (choice === 'mine') {
+            set({ syncConflict: null });
+            await get().saveDocument(canvas, { force: true, overwrite: true });
+        } else if (choice === 'theirs') {
+            set({ syncConflict: null });
+            await get().loadDocument(conflict.documentId, canvas);
+        } else {
+            // Fork local edits into a new document; the original keeps the other tab's version
+            const source = await db.documents.get(conflict.documentId);
+            const id = generateId();
+            const now = Date.now();
+            const data = canvas ? await toAssetRefs(canvas.toObject(PERSISTED_OBJECT_PROPS)) : source?.data ?? { version: '5', objects: [] };
+            const contentHash = await computeContentHash(data.objects);
+            const name = `${source?.name ?? get().documentName} (my copy)`;
+            await db.documents.put({ id, name, createdAt: now, updatedAt: now, data, contentHash, preview: source?.preview, viewport: canvas?.viewportTransform ? [...canvas.viewportTransform] : undefined });
+            broadcastSync({ type: 'documents-changed' });
+            set({ syncConflict: null });
+            await get().loadDocument(id, canvas);
+            toast.success(`Saved your changes as “${name}”`);
+        }
+    },
     loadDocuments: async () => {
-        const docs = await db.documents.orderBy('updatedAt').reverse().toArray();
+        const docs = (await db.documents.orderBy('updatedAt').reverse().toArray()).filter(d => !d.deletedAt);
         set({ documents: docs.map(d => ({ id: d.id, name: d.name, updatedAt: d.updatedAt, preview: d.preview })) });
     },
     createDocument: async (name = 'Untitled') => {
         const id = generateId();
         const now = Date.now();
         const emptyData = { version: '5', objects: [] };
-        const contentHash = await computeStableHash(emptyData);
+        const contentHash = await computeContentHash(emptyData.objects);
         await db.documents.put({ id, name, createdAt: now, updatedAt: now, data: emptyData, contentHash });
-        set(state => ({ documentId: id, documentName: name, documentDirty: false, documents: [{ id, name, updatedAt: now }, ...state.documents] }));
+        broadcastSync({ type: 'documents-changed' });
+        // The outgoing document keeps its undo history for when it is opened again
+        const { documentId: prevId, documentHash: prevHash } = get();
+        if (prevId && prevHash) { persistHistory(prevId, prevHash, true); parkHistory(prevId, prevHash); }
+        setJournalBaseline(id, contentHash, []);
+        cleanState = { documentId: id, hash: contentHash };
+        set(state => ({ documentId: id, documentName: name, documentDirty: false, documentHash: contentHash, syncConflict: null, documents: [{ id, name, updatedAt: now }, ...state.documents] }));
         try { localStorage.setItem('qc:lastDoc', id); } catch { }
     },
     loadDocument: async (id, canvas) => {
@@ -127,11 +282,36 @@ export const useMainStore = create<Mainstore>()((set, get) => ({
         // Short-circuit if already active (and no canvas reload requested)
         if (get().documentId === id && !canvas) return;
         if (canvas) {
+            // Recorded steps act on the content being replaced: the recording ends here
+            if (get().macroRecording) {
+                get().cancelMacroRecording();
+                toast('Macro recording stopped', { description: 'Loading a document discards the steps recorded so far.' });
+            }
+            // Remember where we were in the outgoing document before its view gets replaced
+            const prevId = get().documentId;
+            const switching = !!prevId && prevId !== id;
+            if (switching) {
+                await get().saveViewState(canvas).catch(() => { });
+                // Pending edits are saved first so the parked undo history matches the stored content
+                await get().saveDocument(canvas).catch(() => { });
+                const prevHash = get().documentHash;
+                if (prevHash) { persistHistory(prevId, prevHash, true); parkHistory(prevId, prevHash); }
+            }
             try {
                 canvas.__qcLoading = true;
-                commandManager.clear();
+                // Reloading the active document replaces its content: its history no longer applies
+                if (!switching) commandManager.clear();
+                // Asset refs -> object URLs (inline data URLs of older documents are moved into the asset store first)
+                const json = await resolveAssetRefs(await toAssetRefs(rec.data));
                 // fabric v6: loadFromJSON returns Promise<void>
-                await (canvas as unknown as { loadFromJSON: (json: any) => Promise<void> }).loadFromJSON(rec.data);
+                await (canvas as unknown as { loadFromJSON: (json: any) => Promise<void> }).loadFromJSON(json);
+                assignBaselineIds(canvas, rec.id);
+                if (prevId !== id) await restoreHistory(canvas, rec.id, rec.contentHash);
+                setJournalBaseline(rec.id, rec.contentHash, serializeCanvasObjects(canvas));
+                // Hash of what was actually loaded (legacy records may predate the current hash scheme / qcIds)
+                cleanState = { documentId: rec.id, hash: await computeCanvasContentHash(canvas) };
+                if (rec.viewport?.length === 6) canvas.setViewportTransform(rec.viewport as fabric.TMat2D);
+                else zoomToFitObjects(canvas);
                 canvas.renderAll();
                 canvas.discardActiveObject();
             } catch (e) {
@@ -142,18 +322,50 @@ export const useMainStore = create<Mainstore>()((set, get) => ({
                 try { get().setSelectionFromCanvas(canvas); } catch { }
             }
         }
-        set({ documentId: rec.id, documentName: rec.name, documentDirty: false });
+        if (!canvas) cleanState = { documentId: rec.id, hash: rec.contentHash };
+        set({ documentId: rec.id, documentName: rec.name, documentDirty: false, documentHash: rec.contentHash, syncConflict: null, ...(canvas ? { tool: rec.tool ?? 'pointer' } : {}) });
         try { localStorage.setItem('qc:lastDoc', rec.id); } catch { }
         // Refresh list ordering asynchronously (do not await)
         get().loadDocuments();
+        // Edits journaled after the last save (tab crashed / closed before autosave): offer to replay them
+        if (canvas) {
+            const pending = await findRecoverableJournal(rec).catch(() => null);
+            if (!pending) return;
+            toast('Unsaved changes found', {
+                description: `“${rec.name}” has edits from ${new Date(pending.createdAt).toLocaleString()} that were never saved.`,
+                duration: Infinity,
+                action: {
+                    label: 'Recover', onClick: async () => {
+                        if (get().documentId !== rec.id) return;
+                        try {
+                            canvas.__qcLoading = true;
+                            await applyJournalEntry(canvas, pending);
+                        } catch (e) {
+                            console.warn('Journal recovery failed', e);
+                            toast.error('Could not recover unsaved changes');
+                            return;
+                        } finally {
+                            canvas.__qcLoading = false;
+                        }
+                        discardJournal(pending).catch(() => { }); // this tab journals the recovered edits from now on
+                        get().setSelectionFromCanvas(canvas);
+                        get().markDirty(); // autosave persists the recovered state
+                    }
+                },
+                cancel: { label: 'Discard', onClick: () => { discardJournal(pending).catch(() => { }); } },
+            });
+        }
     },
     renameDocument: async (id, name) => {
         await db.documents.update(id, { name, updatedAt: Date.now() });
+        broadcastSync({ type: 'documents-changed' });
         set(state => ({ documentName: state.documentId === id ? name : state.documentName, documents: state.documents.map(d => d.id === id ? { ...d, name } : d) }));
     },
     deleteDocument: async (id, activeCanvas) => {
-        await db.documents.delete(id);
+        await moveToTrash(id);
+        broadcastSync({ type: 'documents-changed' });
         set(state => ({ documents: state.documents.filter(d => d.id !== id) }));
+        get().loadTrash();
         const st = get();
         if (st.documentId === id) {
             // If we deleted active doc, create a new one.
@@ -164,19 +376,157 @@ export const useMainStore = create<Mainstore>()((set, get) => ({
             const last = get().documentId; if (last) localStorage.setItem('qc:lastDoc', last); else localStorage.removeItem('qc:lastDoc');
         } catch { }
     },
+    loadTrash: async () => {
+        set({ trash: await listTrash() });
+    },
+    restoreDocument: async (id) => {
+        await restoreFromTrash(id);
+        broadcastSync({ type: 'documents-changed' });
+        await Promise.all([get().loadDocuments(), get().loadTrash()]);
+    },
+    purgeDocument: async (id) => {
+        await purgeDocument(id);
+        broadcastSync({ type: 'documents-changed' });
+        set(state => ({ trash: state.trash.filter(d => d.id !== id) }));
+        garbageCollectAssets().catch(e => console.warn('Asset GC failed', e));
+    },
+    emptyTrash: async () => {
+        for (const d of await listTrash()) await purgeDocument(d.id);
+        broadcastSync({ type: 'documents-changed' });
+        set({ trash: [] });
+        garbageCollectAssets().catch(e => console.warn('Asset GC failed', e));
+    },
+    purgeExpiredTrash: async () => {
+        const purged = await purgeExpiredTrash(get().trashRetentionDays);
+        if (!purged) return;
+        broadcastSync({ type: 'documents-changed' });
+        await get().loadTrash();
+    },
+    setTrashRetentionDays: async (days) => {
+        setTrashRetentionDays(days);
+        set({ trashRetentionDays: days });
+        await get().purgeExpiredTrash();
+    },
+    loadMacros: async () => {
+        try { set({ macros: (await listMacros()).map(toMacroSummary) }); } catch (e) { console.warn('Failed to load macros', e); }
+    },
+    startMacroRecording: (canvas) => {
+        startMacroRecording(canvas);
+        set({ macroRecording: true });
+    },
+    stopMacroRecording: async (name) => {
+        const steps = stopMacroRecording();
+        set({ macroRecording: false });
+        if (!steps.length) { toast('Nothing recorded', { description: 'Edits made while recording become the macro steps.' }); return; }
+        try {
+            const macro = await saveMacro(name.trim() || 'Untitled macro', steps);
+            set(state => ({ macros: [toMacroSummary(macro), ...state.macros] }));
+            toast.success(`Saved macro “${macro.name}”`);
+        } catch (e) {
+            console.warn('Failed to save macro', e);
+            toast.error('Failed to save macro');
+        }
+    },
+    cancelMacroRecording: () => {
+        stopMacroRecording();
+        set({ macroRecording: false });
+    },
+    playMacro: async (canvas, id) => {
+        const macro = await db.macros.get(id);
+        if (!macro) { toast.error('Macro not found'); return; }
+        const steps = await resolveAssetRefs(macro.steps);
+        // Added objects are placed relative to the selection (or the viewport center when nothing is selected)
+        const anchor = selectionAnchor(canvas) ?? canvas.getVpCenter();
+        const run = async (step: MacroStep) => {
+            switch (step.op) {
+                case 'set':
+                    get().applyPropertiesToSelection(canvas, o => {
+                        if (step.type && o.type !== step.type) return null;
+                        return Object.fromEntries(Object.entries(step.props).filter(([k]) => k in o));
+                    }, 'Modify Properties');
+                    break;
+                case 'move': {
+                    const objs = canvas.getActiveObjects(); if (!objs.length) break;
+                    // Move the selection as a whole, recorded in scene coordinates (not relative to the selection group).
+                    // Connectors attached to it follow, in the same step
+                    canvas.discardActiveObject();
+                    const subjects = [...objs, ...attachedConnectors(canvas, objs)];
+                    const before = snapshotObjects(subjects);
+                    objs.forEach(o => { o.set({ left: o.left + step.dx, top: o.top + step.dy }); o.setCoords(); });
+                    subjects.filter(isConnector).forEach(c => c.route());
+                    await recordModify(canvas, before, snapshotObjects(subjects), 'Move');
+                    canvas.setActiveObject(objs.length === 1 ? objs[0] : new fabric.ActiveSelection(objs, { canvas }));
+                    break;
+                }
+                case 'order':
+                    ({ front: get().bringToFront, back: get().sendToBack, forward: get().bringForward, backward: get().sendBackward })[step.direction](canvas);
+                    break;
+                case 'delete': {
+                    const objs = canvas.getActiveObjects(); if (!objs.length) break;
+                    canvas.discardActiveObject(); // bake selection transforms into the objects first
+                    await recordRemoveObjects(canvas, objs, 'Delete', false);
+                    break;
+                }
+                case 'add': {
+                    const json = step.objects.map(o => step.relative ? { ...o, left: (o.left ?? 0) + anchor.x, top: (o.top ?? 0) + anchor.y } : o);
+                    const objs = await fabric.util.enlivenObjects<fabric.Object>(json);
+                    if (!objs.length) break;
+                    canvas.add(...objs);
+                    await recordAddObjects(canvas, objs, 'Add');
+                    // Later steps act on what was just added (as they did while recording)
+                    canvas.setActiveObject(objs.length === 1 ? objs[0] : new fabric.ActiveSelection(objs, { canvas }));
+                    break;
+                }
+            }
+        };
+        try {
+            await commandManager.transaction(`Macro “${macro.name}”`, async () => { for (const step of steps) await run(step); });
+            get().markDirty();
+        } catch (e) {
+            // The transaction rolled the steps already applied back: nothing changed
+            console.warn('Macro replay failed', e);
+            toast.error(`Could not play “${macro.name}”`);
+        }
+        canvas.requestRenderAll();
+        get().setSelectionFromCanvas(canvas);
+    },
+    deleteMacro: async (id) => {
+        await deleteMacro(id);
+        set(state => ({ macros: state.macros.filter(m => m.id !== id) }));
+    },
     saveDocument: async (canvas, opts) => {
         const { documentId, documentDirty } = get();
         if (!documentId) return;
         if (!opts?.force && !documentDirty) return; // skip if not dirty
+        const generation = editGeneration;
         const rec = await db.documents.get(documentId); if (!rec) return;
+        // Another tab persisted a different version since we loaded / saved: never overwrite it silently
+        const base = get().documentHash;
+        if (!opts?.overwrite && base && rec.contentHash !== base) {
+            set({ syncConflict: { documentId, theirHash: rec.contentHash, theirUpdatedAt: rec.updatedAt } });
+            return;
+        }
         let data = rec.data;
+        let liveObjects: any[] | null = null; // serialized objects before asset ref mapping (journal baseline)
         try {
             if (canvas) {
                 // We store plain object JSON; toJSON returns fabric objects array, we keep that.
-                data = canvas.toJSON();
+                // Image sources are persisted as qc-asset:// refs (keeps documents / hashes small).
+                // qcIds are kept so history / recovery journal entries can address objects after a reload.
+                canvas.getObjects().forEach(ensureObjectId);
+                const json = canvas.toObject(PERSISTED_OBJECT_PROPS);
+                data = await toAssetRefs(json);
+                liveObjects = json.objects ?? [];
             }
         } catch (e) { console.warn('Serialize canvas failed', e); }
-        const contentHash = await computeStableHash({ objects: (data as any).objects });
+        const contentHash = await computeContentHash((data as any).objects);
+        if (contentHash === rec.contentHash) {
+            // Nothing changed since the stored snapshot (e.g. edits undone): skip the write
+            cleanState = { documentId, hash: contentHash };
+            set({ documentDirty: false, documentHash: contentHash });
+            persistHistory(documentId, contentHash);
+            return;
+        }
         const now = Date.now();
         // Generate preview (throttled size) – capture bounding box of all objects.
         let preview = rec.preview; // reuse if we fail
@@ -193,11 +543,159 @@ export const useMainStore = create<Mainstore>()((set, get) => ({
                 }
             } catch { }
         }
-        await db.documents.put({ ...rec, data, contentHash, updatedAt: now, preview });
-        set(state => ({ documentDirty: false, documents: state.documents.map(d => d.id === documentId ? { ...d, updatedAt: now, preview } : d) }));
+        const viewport = canvas?.viewportTransform ? [...canvas.viewportTransform] : rec.viewport;
+        const saved = { ...rec, data, contentHash, updatedAt: now, preview, viewport, tool: get().tool };
+        await db.documents.put(saved);
+        persistHistory(documentId, contentHash);
+        // Saved snapshot becomes the new journal base: the flush drops superseded entries
+        // (or re-journals edits made while this save was in flight)
+        if (canvas && liveObjects) {
+            setJournalBaseline(documentId, contentHash, liveObjects);
+            flushJournal(documentId, canvas);
+        }
+        cleanState = { documentId, hash: contentHash };
+        set(state => ({ documentDirty: false, documentHash: contentHash, documents: state.documents.map(d => d.id === documentId ? { ...d, updatedAt: now, preview } : d) }));
+        broadcastSync({ type: 'document-saved', documentId, contentHash, updatedAt: now });
         try { localStorage.setItem('qc:lastDoc', documentId); } catch { }
+        // Periodic restore point (throttled + deduped inside captureVersion)
+        captureVersion(saved, { kind: 'auto' }).catch(e => console.warn('Version capture failed', e));
+        // Edited while the save was in flight: re-derive (flips dirty back on and re-arms the autosave)
+        if (editGeneration !== generation) get().refreshDirty(canvas);
+    },
+    exportDocument: async (canvas) => {
+        const { documentId } = get(); if (!documentId) return;
+        try {
+            await get().saveDocument(canvas, { force: true });
+            const rec = await db.documents.get(documentId);
+            if (!rec) { toast.error('Document not found'); return; }
+            const data = canvas ? canvas.toJSON() : rec.data;
+            const blob = await serializeDocumentFile({ ...rec, data });
+            downloadBlob(blob, documentFileName(rec.name));
+            toast.success('Document exported');
+        } catch (e) {
+            console.warn('Export failed', e);
+            toast.error('Export failed');
+        }
+    },
+    importDocument: async (file, canvas) => {
+        let parsed;
+        const id = generateId();
+        try {
+            parsed = parseDocumentFile(await file.text());
+            // Persist pending edits of the active doc before switching away
+            await get().saveDocument(canvas);
+            const now = Date.now();
+            const data = await toAssetRefs(parsed.data); // embedded images -> asset store
+            const contentHash = await computeContentHash(data.objects);
+            await db.documents.put({ id, name: parsed.name, createdAt: now, updatedAt: now, data, contentHash, preview: parsed.preview, viewport: parsed.viewport });
+        } catch (e) {
+            console.warn('Import failed', e);
+            toast.error(`Import failed: ${e instanceof Error ? e.message : 'unreadable file'}`);
+            return;
+        }
+        broadcastSync({ type: 'documents-changed' });
+        if (canvas) await get().loadDocument(id, canvas);
+        else await get().loadDocuments();
+        toast.success(`Imported “${parsed.name}”`);
+    },
+    backupWorkspace: async (canvas) => {
+        try {
+            await get().saveDocument(canvas); // include pending edits of the active doc
+            downloadBlob(await createWorkspaceBackup(), backupFileName());
+            toast.success('Workspace backup downloaded');
+        } catch (e) {
+            console.warn('Backup failed', e);
+            toast.error('Backup failed');
+        }
+    },
+    restoreWorkspace: async (file, mode, canvas) => {
+        let report: RestoreReport;
+        try {
+            const backup = parseWorkspaceBackup(await file.text());
+            await get().saveDocument(canvas); // local edits take part in the merge
+            report = await restoreWorkspaceBackup(backup, mode);
+        } catch (e) {
+            console.warn('Restore failed', e);
+            toast.error(`Restore failed: ${e instanceof Error ? e.message : 'unreadable file'}`);
+            return null;
+        }
+        await Promise.all([get().loadDocuments(), get().loadGallery()]);
+        const { documentId } = get();
+        if (canvas && documentId && report.overwrittenIds.includes(documentId)) await get().loadDocument(documentId, canvas);
+        toast.success('Workspace restored', { description: describeRestoreReport(report) });
+        return report;
+    },
+    markDirty: () => {
+        editGeneration++;
+        if (typeof window === 'undefined') { set({ documentDirty: true }); return; }
+        if (dirtyCheckTimer) clearTimeout(dirtyCheckTimer);
+        dirtyCheckTimer = setTimeout(() => { dirtyCheckTimer = null; get().refreshDirty(); }, DIRTY_CHECK_MS);
+        // Journal the edit well before the autosave fires (throttled) so a crash in between stays recoverable
+        if (journalTimer) return;
+        journalTimer = setTimeout(() => {
+            journalTimer = null;
+            const { documentId } = get(); const canvas = window.fabricCanvas;
+            if (documentId && canvas && !canvas.__qcLoading) flushJournal(documentId, canvas);
+        }, JOURNAL_FLUSH_MS);
+    },
+    refreshDirty: async (canvas = typeof window !== 'undefined' ? window.fabricCanvas : undefined) => {
+        const { documentId } = get(); if (!documentId) return;
+        if (!canvas || cleanState?.documentId !== documentId) { set({ documentDirty: true }); return; }
+        const generation = editGeneration;
+        const hash = await computeCanvasContentHash(canvas);
+        if (generation !== editGeneration || get().documentId !== documentId) return; // superseded by a newer edit
+        const dirty = hash !== cleanState?.hash;
+        if (dirty !== get().documentDirty) set({ documentDirty: dirty });
+    },
+    saveViewState: async (canvas) => {
+        const { documentId, tool } = get();
+        if (!documentId || !canvas.viewportTransform) return;
+        // Partial update: leaves data/contentHash/updatedAt untouched so view changes never look like edits
+        await db.documents.update(documentId, { viewport: [...canvas.viewportTransform], tool });
+    },
+    versions: [],
+    loadVersions: async () => {
+        const { documentId } = get();
+        if (!documentId) { set({ versions: [] }); return; }
+        const rows = await listVersions(documentId);
+        set({ versions: rows.map(toVersionSummary) });
+    },
+    createVersion: async (canvas, name) => {
+        const { documentId } = get(); if (!documentId) return;
+        await get().saveDocument(canvas, { force: true });
+        const rec = await db.documents.get(documentId); if (!rec) return;
+        await captureVersion(rec, { kind: 'manual', name: name.trim() || undefined });
+        await get().loadVersions();
+    },
+    restoreVersion: async (versionId, canvas) => {
+        const version = await db.documentVersions.get(versionId);
+        if (!version) { toast.error('Version not found'); return; }
+        // Keep the state we're replacing reachable as a restore point of its own
+        await get().saveDocument(canvas, { force: true });
+        const current = await db.documents.get(version.documentId);
+        if (!current) { toast.error('Document not found'); return; }
+        await captureVersion(current, { kind: 'auto', force: true });
+        const restoredAt = Date.now();
+        await db.documents.put({ ...current, data: version.data, contentHash: version.contentHash, preview: version.preview, updatedAt: restoredAt });
+        broadcastSync({ type: 'document-saved', documentId: current.id, contentHash: version.contentHash, updatedAt: restoredAt });
+        await get().loadDocument(version.documentId, canvas);
+        await get().loadVersions();
+    },
+    forkVersion: async (versionId, canvas) => {
+        const version = await db.documentVersions.get(versionId);
+        if (!version) { toast.error('Version not found'); return; }
+        const source = await db.documents.get(version.documentId);
+        // Persist pending edits of the active doc before switching away
+        await get().saveDocument(canvas);
+        const id = generateId();
+        const now = Date.now();
+        const label = version.name || new Date(version.createdAt).toLocaleString();
+        const name = `${source?.name ?? 'Untitled'} (${label})`;
+        await db.documents.put({ id, name, createdAt: now, updatedAt: now, data: version.data, contentHash: version.contentHash, preview: version.preview });
+        broadcastSync({ type: 'documents-changed' });
+        await get().loadDocument(id, canvas);
+        await get().loadVersions();
     },
-    markDirty: () => set({ documentDirty: true }),
     selection: { has: false, type: null, editingText: false, fill: null, shape: null, capabilities: { fill: false, cornerRadius: false } },
     setSelectionFromCanvas: (canvas) => {
         const active = canvas.getActiveObject() as fabric.Object | fabric.ActiveSelection | null;
@@ -213,6 +711,7 @@ export const useMainStore = create<Mainstore>()((set, get) => ({
             if (collect.length) {
                 // Capability: fill if any object supports fill
                 capabilities.fill = collect.some(o => supportsFill(o));
+                capabilities.boolean = collect.length > 1 && collect.every(isBooleanOperand);
                 const allTypes = new Set(collect.map(o => o.type));
                 if (allTypes.size === 1) {
                     const onlyType = collect[0].type;
@@ -232,6 +731,28 @@ export const useMainStore = create<Mainstore>()((set, get) => ({
                         capabilities.cornerRadius = true; // unified rect radius editing
                     } else if (onlyType === 'ellipse') {
                         shape = { kind: 'ellipse' }; // placeholders for future ellipse-specific props
+                    } else if (onlyType === 'regularpolygon' || onlyType === 'star') {
+                        const unified = (key: 'sides' | 'innerRatio') => {
+                            const vals = new Set(collect.map(o => (o as any)[key] as number));
+                            return vals.size === 1 ? [...vals][0] ?? null : null;
+                        };
+                        shape = { kind: onlyType === 'star' ? 'star' : 'polygon', polygon: { sides: unified('sides'), innerRatio: onlyType === 'star' ? unified('innerRatio') : null } };
+                        capabilities.polygon = true;
+                    } else if (onlyType === 'arrow' || onlyType === 'connector') {
+                        const unified = <K extends 'startHead' | 'endHead' | 'routing'>(key: K) => {
+                            const vals = new Set(collect.map(o => (o as Arrow & Connector)[key]));
+                            return vals.size === 1 ? [...vals][0] : null;
+                        };
+                        shape = { kind: onlyType, arrow: { startHead: unified('startHead'), endHead: unified('endHead') } };
+                        capabilities.arrow = true;
+                        if (onlyType === 'connector') {
+                            shape.connector = { routing: unified('routing') };
+                            capabilities.connector = true;
+                        }
+                    } else if (onlyType === 'frame' && collect.length === 1) {
+                        const frame = collect[0] as Frame;
+                        shape = { kind: 'frame', frame: { name: frame.name, clipContent: frame.clipContent, background: !!frame.fill } };
+                        capabilities.frame = true;
                     }
                 }
                 // Corner radius only when all are rects (already gated above). For mixed future shapes, keep false.
@@ -239,41 +760,45 @@ export const useMainStore = create<Mainstore>()((set, get) => ({
         }
         set({ selection: { has: !!active && !editingText, type: active?.type || null, editingText, fill, shape, capabilities } });
     },
-    applyFillToSelection: (canvas, color) => {
+    applyPropertiesToSelection: (canvas, props, label) => {
         const active = canvas.getActiveObject() as fabric.Object | fabric.ActiveSelection | null; if (!active) return;
-        applyFillToObjectOrSelection(active, color);
+        const objs = active.isType('activeselection') ? (active as fabric.ActiveSelection).getObjects() : [active];
+        const before: PropMutationState[] = [];
+        const after: PropMutationState[] = [];
+        objs.forEach(o => {
+            const next = typeof props === 'function' ? props(o) : props; if (!next) return;
+            const keys = Object.keys(next).filter(k => (o as any)[k] !== next[k]);
+            if (!keys.length) return;
+            const qcId = ensureObjectId(o);
+            before.push({ qcId, props: Object.fromEntries(keys.map(k => [k, (o as any)[k]])) });
+            after.push({ qcId, props: Object.fromEntries(keys.map(k => [k, next[k]])) });
+            o.set(after[after.length - 1].props);
+            o.setCoords();
+        });
+        if (!after.length) return;
+        // Geometry edits (sides, heads, size) move the anchors of attached connectors
+        const routed = rerouteAttachedConnectors(canvas, objs);
+        before.push(...routed.before);
+        after.push(...routed.after);
         canvas.requestRenderAll();
-        // Update unified fill immediately
-        set(state => ({ selection: { ...state.selection, fill: color } }));
+        // Same control on the same objects = same key, so a color picker drag becomes one undo step
+        const key = `${label}:${objs.map(ensureObjectId).join(',')}`;
+        recordPropertyMutation(canvas, before, after, label, true, key);
+        get().markDirty();
+        get().setSelectionFromCanvas(canvas);
+    },
+    applyFillToSelection: (canvas, color) => {
+        get().applyPropertiesToSelection(canvas, o => supportsFill(o) ? { fill: color } : null, 'Fill');
     },
     applyRectCornerRadiusToSelection: (canvas, radius) => {
-        const active = canvas.getActiveObject() as fabric.Object | fabric.ActiveSelection | null; if (!active) return;
-        const objs: fabric.Object[] = [];
-        if (active.isType('activeselection')) (active as fabric.ActiveSelection).forEachObject(o => objs.push(o)); else objs.push(active);
-        const rects = objs.filter(o => o.type === 'rect');
-        if (!rects.length) return;
-        rects.forEach(ensureObjectId);
-        const before: { qcId: string; props: { rx: number; ry: number } }[] = [];
-        const after: { qcId: string; props: { rx: number; ry: number } }[] = [];
-        rects.forEach(r => {
-            const anyR = r as any;
-            const currentRx = typeof anyR.rx === 'number' ? anyR.rx : 0;
-            const currentRy = typeof anyR.ry === 'number' ? anyR.ry : 0;
-            const nextRx = radius.rx != null ? Math.max(0, radius.rx) : currentRx;
-            const nextRy = radius.ry != null ? Math.max(0, radius.ry) : currentRy;
-            if (nextRx !== currentRx || nextRy !== currentRy) {
-                before.push({ qcId: anyR.qcId, props: { rx: currentRx, ry: currentRy } });
-                anyR.set?.({ rx: nextRx, ry: nextRy });
-                anyR.setCoords();
-                after.push({ qcId: anyR.qcId, props: { rx: nextRx, ry: nextRy } });
-            }
-        });
-        if (after.length) {
-            canvas.requestRenderAll();
-            recordPropertyMutation(canvas, before, after, 'Corner Radius', true);
-        }
-        // Refresh selection snapshot (unified rx/ry)
-        get().setSelectionFromCanvas(canvas);
+        get().applyPropertiesToSelection(canvas, o => {
+            if (o.type !== 'rect') return null;
+            const r = o as fabric.Rect;
+            return {
+                rx: radius.rx != null ? Math.max(0, radius.rx) : r.rx ?? 0,
+                ry: radius.ry != null ? Math.max(0, radius.ry) : r.ry ?? 0,
+            };
+        }, 'Corner Radius');
     },
     deleteSelection: (canvas) => {
         const active = canvas.getActiveObject(); if (!active) return;
@@ -296,6 +821,51 @@ export const useMainStore = create<Mainstore>()((set, get) => ({
             });
         }
     },
+    booleanSelection: async (canvas, op) => {
+        const selected = canvas.getActiveObjects();
+        if (selected.length < 2 || !selected.every(isBooleanOperand)) return;
+        canvas.discardActiveObject(); // bake selection transforms into the operands first
+        const operands = canvas.getObjects().filter(o => selected.includes(o)); // bottom to top
+        const label = BOOLEAN_OPS.find(b => b.op === op)!.label;
+        const reselect = () => {
+            canvas.setActiveObject(new fabric.ActiveSelection(operands, { canvas }));
+            canvas.requestRenderAll();
+        };
+        let result: fabric.Path | null;
+        try {
+            result = booleanPath(operands, op);
+        } catch (e) {
+            // polygon-clipping throws on degenerate geometry (zero-area / self-touching rings)
+            console.warn('Boolean operation failed', e);
+            toast.error(`${label} failed: ${e instanceof Error ? e.message : String(e)}`);
+            reselect();
+            return;
+        }
+        if (!result) {
+            toast.error(`${label} leaves no shape`);
+            reselect();
+            return;
+        }
+        // The result takes the bottom operand's place in the stack. Re-adding appends on top, so the stacking is
+        // recorded around the swap: operands go to the top before removal (undo re-adds them there, then restores the
+        // original order) and the result moves down into place after its add
+        const index = canvas.getObjects().indexOf(operands[0]);
+        canvas.getObjects().forEach(ensureObjectId);
+        const order = () => canvas.getObjects().map(o => o.qcId || '');
+        await commandManager.transaction(label, async () => {
+            const original = order();
+            operands.forEach(o => canvas.bringObjectToFront(o));
+            await recordReorder(canvas, original, order(), label);
+            await recordRemoveObjects(canvas, operands, label, false);
+            await recordAddObjects(canvas, result, label, false);
+            const appended = order();
+            canvas.moveObjectTo(result, index);
+            await recordReorder(canvas, appended, order(), label);
+        });
+        canvas.setActiveObject(result);
+        canvas.requestRenderAll();
+        get().setSelectionFromCanvas(canvas);
+    },
     bringForward: (canvas) => {
         const active = canvas.getActiveObject(); if (!active) return;
         const selection: fabric.Object[] = [];
@@ -350,6 +920,15 @@ export const useMainStore = create<Mainstore>()((set, get) => ({
         get().setSelectionFromCanvas(canvas);
     },
     gallery: [],
+    loadGallery: async () => {
+        let items: GalleryItem[] = [];
+        try { items = await db.gallery.orderBy('addedAt').reverse().toArray(); } catch (e) { console.warn('Failed to load gallery', e); return; }
+        // Merge: items added while the read was in flight are not stored yet (stored records win for the others)
+        const stored = new Set(items.map(g => g.id));
+        updateGallery(set, gallery => [...gallery.filter(g => !stored.has(g.id)), ...items].sort((a, b) => b.addedAt - a.addedAt));
+        checksumIndex.clear();
+        get().gallery.forEach(g => { if (g.checksum && !checksumIndex.has(g.checksum)) checksumIndex.set(g.checksum, g.id); });
+    },
     addToGallery: async (obj) => {
         const serialize = (o: fabric.Object): SerializedFabricObject => {
             const base = (o.toObject?.(SERIALIZE_PROPS) ?? {}) as Record<string, unknown>;
@@ -360,17 +939,19 @@ export const useMainStore = create<Mainstore>()((set, get) => ({
         let kind: GalleryItem['kind'] = 'object';
         const isSelection = obj.isType?.('activeselection');
         const isImage = (obj.type === 'image');
+        // Persisted payloads reference images through the asset store (never inline data / session URLs)
+        const toPayload = async (p: GalleryPayload) => toAssetRefs(p);
 
         if (isSelection) {
             kind = 'selection';
             const items: SerializedFabricObject[] = [];
             (obj as fabric.ActiveSelection).forEachObject((child: fabric.Object) => items.push(serialize(child)));
-            payload = items;
+            payload = await toPayload(items);
         } else if (isImage) {
             kind = 'image';
-            payload = serialize(obj as fabric.Object);
+            payload = await toPayload(serialize(obj as fabric.Object));
         } else {
-            payload = serialize(obj as fabric.Object);
+            payload = await toPayload(serialize(obj as fabric.Object));
         }
 
         // Normalize for hash (position-invariant, tolerant to micro float noise)
@@ -402,15 +983,16 @@ export const useMainStore = create<Mainstore>()((set, get) => ({
         if (checksum && checksumIndex.has(checksum)) {
             const existingId = checksumIndex.get(checksum)!;
             let bumpedItem: GalleryItem | undefined;
-            set(state => {
-                const idx = state.gallery.findIndex(g => g.id === existingId);
-                if (idx === -1) return state; // index drift; ignore
-                const existing = state.gallery[idx];
+            updateGallery(set, gallery => {
+                const idx = gallery.findIndex(g => g.id === existingId);
+                if (idx === -1) return gallery; // index drift; ignore
+                const existing = gallery[idx];
                 bumpedItem = { ...existing, addedAt: Date.now() };
-                const newGallery = [bumpedItem!, ...state.gallery.slice(0, idx), ...state.gallery.slice(idx + 1)];
-                return { ...state, gallery: newGallery.slice(0, 200) };
+                return [bumpedItem!, ...gallery.slice(0, idx), ...gallery.slice(idx + 1)];
             });
             if (bumpedItem) {
+                const bumped = bumpedItem;
+                persistGallery(() => db.gallery.update(bumped.id, { addedAt: bumped.addedAt }));
                 (toast as any).message?.('Resource already in gallery – bumped to top') || toast('Resource already in gallery – bumped to top');
                 return bumpedItem!;
             }
@@ -460,16 +1042,19 @@ export const useMainStore = create<Mainstore>()((set, get) => ({
         const newItem: GalleryItem = { id: genId(), kind, preview: dataUrl, payload, checksum, addedAt: Date.now() };
         if (checksum) checksumIndex.set(checksum, newItem.id);
         let finalItem = newItem;
-        set(state => ({ ...state, gallery: [newItem, ...state.gallery].slice(0, 200) }));
+        persistGallery(() => db.gallery.put(newItem));
+        updateGallery(set, gallery => [newItem, ...gallery]);
         return finalItem;
     },
     clearGallery: () => {
         checksumIndex.clear();
+        persistGallery(() => db.gallery.clear());
         set({ gallery: [] });
     },
     removeFromGallery: (id: string) => set(state => {
         const item = state.gallery.find(g => g.id === id);
         if (item?.checksum) checksumIndex.delete(item.checksum);
+        persistGallery(() => db.gallery.delete(id));
         return { ...state, gallery: state.gallery.filter(g => g.id !== id) };
     }),
 }));
@@ -1 +1 @@
-export type CanvasTool = "pointer" | "pan" | "rect" | "ellipse" | "line" | "text";
+export type CanvasTool = "pointer" | "pan" | "rect" | "ellipse" | "line" | "arrow" | "polygon" | "star" | "draw" | "pen" | "connector" | "frame" | "text";